@@ -0,0 +1,18 @@
+-- Create the transactions table
+
+CREATE TABLE IF NOT EXISTS transactions (
+  id BIGSERIAL PRIMARY KEY,
+  chat_id BIGINT NOT NULL,
+  amount DECIMAL(12, 2) NOT NULL,
+  bank_detected TEXT,
+  client_name TEXT,
+  telegram_file_id TEXT NOT NULL,
+  raw_response TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Index for faster daily queries per user
+CREATE INDEX IF NOT EXISTS idx_transactions_chat_created ON transactions (chat_id, created_at);
+
+-- Index for duplicate detection
+CREATE INDEX IF NOT EXISTS idx_transactions_chat_file ON transactions (chat_id, telegram_file_id);
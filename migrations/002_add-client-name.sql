@@ -1,4 +1,4 @@
--- Run this in your Supabase SQL Editor to add client_name column
+-- Add client_name column
 
 ALTER TABLE transactions ADD COLUMN IF NOT EXISTS client_name TEXT;
 
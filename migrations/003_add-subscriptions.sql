@@ -1,4 +1,4 @@
--- Run this in Supabase SQL Editor to add subscription tables
+-- Add subscription tables
 
 -- Subscriptions table
 CREATE TABLE IF NOT EXISTS subscriptions (
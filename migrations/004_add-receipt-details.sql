@@ -0,0 +1,11 @@
+-- Add the full receipt record columns
+
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS e2e_id TEXT;
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS paid_at TIMESTAMPTZ;
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS receiver_name TEXT;
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS receiver_institution TEXT;
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS payer_document TEXT;
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS payer_bank TEXT;
+
+-- Add index for end-to-end ID lookups
+CREATE INDEX IF NOT EXISTS idx_transactions_chat_e2e ON transactions (chat_id, e2e_id);
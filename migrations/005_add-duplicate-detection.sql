@@ -0,0 +1,7 @@
+-- Add content-based duplicate detection
+
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS receipt_fingerprint TEXT;
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS image_hash TEXT;
+
+-- Index for payer/amount/time fingerprint lookups
+CREATE INDEX IF NOT EXISTS idx_transactions_chat_fingerprint ON transactions (chat_id, receipt_fingerprint);
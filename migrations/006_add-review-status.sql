@@ -0,0 +1,8 @@
+-- Add the low-confidence review flow
+
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'confirmed';
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS confidence TEXT;
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS confidence_reasons TEXT[];
+
+-- Index for pending review lookups
+CREATE INDEX IF NOT EXISTS idx_transactions_chat_status ON transactions (chat_id, status);
@@ -0,0 +1,16 @@
+-- Add receiver validation
+
+-- Each chat's own receiving identity
+CREATE TABLE IF NOT EXISTS receiver_profiles (
+  id BIGSERIAL PRIMARY KEY,
+  chat_id BIGINT NOT NULL UNIQUE,
+  legal_name TEXT,
+  cnpj TEXT,
+  bank TEXT,
+  pix_keys TEXT[] NOT NULL DEFAULT '{}',
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Result of checking each receipt against the receiver profile
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS receiver_check TEXT;
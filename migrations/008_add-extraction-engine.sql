@@ -0,0 +1,3 @@
+-- Record which engine extracted each receipt
+
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS extraction_engine TEXT;
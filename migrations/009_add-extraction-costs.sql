@@ -0,0 +1,20 @@
+-- Add per-call extraction cost accounting
+
+CREATE TABLE IF NOT EXISTS extraction_calls (
+  id BIGSERIAL PRIMARY KEY,
+  chat_id BIGINT NOT NULL,
+  transaction_id BIGINT REFERENCES transactions (id) ON DELETE SET NULL,
+  telegram_file_id TEXT NOT NULL,
+  engine TEXT NOT NULL,
+  model TEXT,
+  input_tokens INTEGER NOT NULL DEFAULT 0,
+  output_tokens INTEGER NOT NULL DEFAULT 0,
+  latency_ms INTEGER NOT NULL DEFAULT 0,
+  success BOOLEAN NOT NULL DEFAULT TRUE,
+  cost_usd DECIMAL(12, 6) NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Indexes
+CREATE INDEX IF NOT EXISTS idx_extraction_calls_chat_created ON extraction_calls (chat_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_extraction_calls_file ON extraction_calls (chat_id, telegram_file_id);
@@ -0,0 +1,5 @@
+-- Add payment method tracking
+
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS payment_method TEXT NOT NULL DEFAULT 'pix';
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS card_brand TEXT;
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS installments INTEGER;
@@ -0,0 +1,6 @@
+-- Allow manual entries (/add)
+
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS source TEXT NOT NULL DEFAULT 'receipt';
+
+-- Manual entries have no Telegram file
+ALTER TABLE transactions ALTER COLUMN telegram_file_id DROP NOT NULL;
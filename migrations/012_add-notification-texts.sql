@@ -0,0 +1,9 @@
+-- Accept forwarded bank notification texts
+
+-- Hash of the notification text, to catch the same notification sent twice
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS content_hash TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_transactions_chat_content ON transactions (chat_id, content_hash);
+
+-- Notification texts have no Telegram file
+ALTER TABLE extraction_calls ALTER COLUMN telegram_file_id DROP NOT NULL;
@@ -0,0 +1,21 @@
+-- Process receipts through a persistent job queue
+
+CREATE TABLE IF NOT EXISTS receipt_jobs (
+  id BIGSERIAL PRIMARY KEY,
+  chat_id BIGINT NOT NULL,
+  kind TEXT NOT NULL,
+  payload JSONB NOT NULL,
+  status TEXT NOT NULL DEFAULT 'queued',
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 4,
+  next_attempt_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  last_error TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Index for the worker's queue polling
+CREATE INDEX IF NOT EXISTS idx_receipt_jobs_status_next ON receipt_jobs (status, next_attempt_at);
+
+-- Index for a chat's pending jobs (/fila)
+CREATE INDEX IF NOT EXISTS idx_receipt_jobs_chat_status ON receipt_jobs (chat_id, status);
@@ -0,0 +1,11 @@
+-- Give each chat its own timezone and business day
+
+CREATE TABLE IF NOT EXISTS chat_settings (
+  id BIGSERIAL PRIMARY KEY,
+  chat_id BIGINT NOT NULL UNIQUE,
+  timezone TEXT NOT NULL DEFAULT 'America/Sao_Paulo',
+  -- When the business day starts, e.g. 04:00 for a bar open from 18:00 to 04:00
+  day_cutoff TIME NOT NULL DEFAULT '00:00',
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
@@ -0,0 +1,25 @@
+-- Keep deleted transactions and log every change
+
+-- Deleted transactions are kept (soft delete) so /desfazer can restore them
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMPTZ;
+
+-- Who changed which transaction, when, and the values before and after
+CREATE TABLE IF NOT EXISTS transaction_audit (
+  id BIGSERIAL PRIMARY KEY,
+  chat_id BIGINT NOT NULL,
+  transaction_id BIGINT NOT NULL REFERENCES transactions (id) ON DELETE CASCADE,
+  batch_id TEXT NOT NULL,
+  action TEXT NOT NULL,
+  actor_id BIGINT,
+  actor_name TEXT,
+  old_values JSONB NOT NULL DEFAULT '{}',
+  new_values JSONB NOT NULL DEFAULT '{}',
+  undone_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Index for a transaction's history (/historico)
+CREATE INDEX IF NOT EXISTS idx_transaction_audit_transaction ON transaction_audit (chat_id, transaction_id);
+
+-- Index for the chat's last change (/desfazer)
+CREATE INDEX IF NOT EXISTS idx_transaction_audit_chat_created ON transaction_audit (chat_id, created_at);
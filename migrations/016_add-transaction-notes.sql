@@ -0,0 +1,3 @@
+-- Let users attach a note to a transaction (/editar)
+
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS note TEXT;
@@ -0,0 +1,24 @@
+-- Group client names into a client directory
+
+-- One row per customer; aliases holds every normalized spelling grouped into it
+CREATE TABLE IF NOT EXISTS clients (
+  id BIGSERIAL PRIMARY KEY,
+  chat_id BIGINT NOT NULL,
+  name TEXT NOT NULL,
+  search_key TEXT NOT NULL,
+  aliases TEXT[] NOT NULL DEFAULT '{}',
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Index for name lookups by first name
+CREATE INDEX IF NOT EXISTS idx_clients_chat_search_key ON clients (chat_id, search_key);
+
+-- Index for known spellings
+CREATE INDEX IF NOT EXISTS idx_clients_aliases ON clients USING GIN (aliases);
+
+-- Existing transactions are linked the first time /clientes or /cliente runs
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS client_id BIGINT REFERENCES clients (id) ON DELETE SET NULL;
+
+-- Index for a client's payments (/cliente)
+CREATE INDEX IF NOT EXISTS idx_transactions_chat_client ON transactions (chat_id, client_id);
@@ -0,0 +1,9 @@
+-- Archive original receipt files
+
+-- Storage key of the archived file; content_hash now also holds the SHA-256 of receipt files
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS receipt_path TEXT;
+
+-- Private bucket for the files (RECEIPT_STORAGE=supabase, the default)
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('receipts', 'receipts', false)
+ON CONFLICT (id) DO NOTHING;
@@ -0,0 +1,20 @@
+-- Scheduled daily, weekly and monthly summaries, chosen by each chat (/resumos)
+
+CREATE TABLE IF NOT EXISTS summary_schedules (
+  id BIGSERIAL PRIMARY KEY,
+  chat_id BIGINT NOT NULL,
+  kind TEXT NOT NULL CHECK (kind IN ('daily', 'weekly', 'monthly')),
+  -- Local time in the chat's timezone; weekly is sent on Mondays, monthly on the 1st
+  send_time TIME NOT NULL,
+  enabled BOOLEAN NOT NULL DEFAULT TRUE,
+  -- First day of the last period sent, so a restart or an overlapping tick can't send it again
+  last_sent_for DATE,
+  last_sent_at TIMESTAMPTZ,
+  -- Why the schedule was turned off by the bot, e.g. 'blocked' when the chat blocked it
+  disabled_reason TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (chat_id, kind)
+);
+
+CREATE INDEX IF NOT EXISTS idx_summary_schedules_enabled ON summary_schedules (enabled) WHERE enabled;
@@ -0,0 +1,15 @@
+-- Daily and monthly revenue goals per chat (/meta)
+
+CREATE TABLE IF NOT EXISTS sales_goals (
+  id BIGSERIAL PRIMARY KEY,
+  chat_id BIGINT NOT NULL UNIQUE,
+  daily_goal DECIMAL(12, 2),
+  monthly_goal DECIMAL(12, 2),
+  -- Highest 50/100/150% milestone announced, and the day or month it was for
+  daily_milestone INTEGER NOT NULL DEFAULT 0,
+  daily_milestone_day DATE,
+  monthly_milestone INTEGER NOT NULL DEFAULT 0,
+  monthly_milestone_month DATE,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
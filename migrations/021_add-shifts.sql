@@ -0,0 +1,33 @@
+-- Cash register shifts (/abrircaixa, /fecharcaixa); receipts are attached to the open shift
+
+CREATE TABLE IF NOT EXISTS shifts (
+  id BIGSERIAL PRIMARY KEY,
+  chat_id BIGINT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'open', -- 'open', 'closed' or 'reopened'; closed shifts can't be edited
+  opening_cash DECIMAL(12, 2) NOT NULL DEFAULT 0,
+  opened_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  opened_by_id BIGINT,
+  opened_by_name TEXT,
+  -- Filled on close: totals per payment method from the bot and as counted by the operator
+  closed_at TIMESTAMPTZ,
+  closed_by_id BIGINT,
+  closed_by_name TEXT,
+  sales_count INTEGER,
+  expected JSONB,
+  declared JSONB,
+  reopened_at TIMESTAMPTZ,
+  reopened_by_name TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- At most one open shift per chat
+CREATE UNIQUE INDEX IF NOT EXISTS idx_shifts_chat_open ON shifts (chat_id) WHERE status = 'open';
+
+-- Index for a chat's latest shifts
+CREATE INDEX IF NOT EXISTS idx_shifts_chat_opened ON shifts (chat_id, opened_at);
+
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS shift_id BIGINT REFERENCES shifts (id) ON DELETE SET NULL;
+
+-- Index for a shift's transactions (closing report)
+CREATE INDEX IF NOT EXISTS idx_transactions_shift ON transactions (shift_id);
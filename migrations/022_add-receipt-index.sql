@@ -0,0 +1,4 @@
+-- Position of a receipt within its file or notification, so a job retried after saving part of a
+-- multi-receipt input can tell which receipts are already registered
+
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS receipt_index INTEGER;
@@ -0,0 +1,215 @@
+import crypto from "crypto";
+import { supabase, Transaction, IDS_PER_REQUEST, MAX_ROWS_PER_REQUEST } from "./database.js";
+import { formatTimeInZone, getDaySettings } from "./businessday.js";
+import { formatCurrency } from "./summary.js";
+import { assertShiftsOpen } from "./shifts.js";
+
+/** Who made a change, as Telegram reports them */
+export interface Actor {
+  userId: number | null;
+  name: string | null;
+}
+
+// "update" and "delete" can be undone with /desfazer; "restore" records an undo
+export type AuditAction = "update" | "delete" | "confirm" | "restore";
+
+export interface AuditEntry {
+  id?: number;
+  chat_id: number;
+  transaction_id: number;
+  batch_id: string; // changes made by one command share a batch, so they are undone together
+  action: AuditAction;
+  actor_id: number | null;
+  actor_name: string | null;
+  old_values: Partial<Transaction>;
+  new_values: Partial<Transaction>;
+  undone_at: string | null;
+  created_at?: string;
+}
+
+export interface AuditChange {
+  transactionId: number;
+  oldValues: Partial<Transaction>;
+  newValues: Partial<Transaction>;
+}
+
+const UNDOABLE_ACTIONS: AuditAction[] = ["update", "delete"];
+
+export function newBatchId(): string {
+  return crypto.randomBytes(8).toString("hex");
+}
+
+/** Write one audit entry per changed transaction */
+export async function recordAudit(
+  chatId: number,
+  actor: Actor,
+  action: AuditAction,
+  changes: AuditChange[],
+  batchId: string = newBatchId()
+): Promise<void> {
+  if (changes.length === 0) return;
+
+  const { error } = await supabase.from("transaction_audit").insert(
+    changes.map((change) => ({
+      chat_id: chatId,
+      transaction_id: change.transactionId,
+      batch_id: batchId,
+      action,
+      actor_id: actor.userId,
+      actor_name: actor.name,
+      old_values: change.oldValues,
+      new_values: change.newValues,
+    }))
+  );
+
+  if (error) throw error;
+}
+
+export async function getTransactionHistory(chatId: number, transactionId: number): Promise<AuditEntry[]> {
+  const { data, error } = await supabase
+    .from("transaction_audit")
+    .select("*")
+    .eq("chat_id", chatId)
+    .eq("transaction_id", transactionId)
+    .order("created_at", { ascending: true });
+
+  if (error) throw error;
+  return data ?? [];
+}
+
+/**
+ * Restore the transactions touched by the chat's last destructive command that was not undone yet.
+ * Returns the undone entries, or an empty list when there is nothing to undo.
+ */
+export async function undoLastAction(chatId: number, actor: Actor): Promise<AuditEntry[]> {
+  const { data: last, error: lastError } = await supabase
+    .from("transaction_audit")
+    .select("batch_id")
+    .eq("chat_id", chatId)
+    .in("action", UNDOABLE_ACTIONS)
+    .is("undone_at", null)
+    .order("created_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (lastError) throw lastError;
+  if (!last) return [];
+
+  // A /limpar batch can hold more rows than one request returns
+  const entries: AuditEntry[] = [];
+  for (let offset = 0; ; offset += MAX_ROWS_PER_REQUEST) {
+    const { data, error } = await supabase
+      .from("transaction_audit")
+      .select("*")
+      .eq("chat_id", chatId)
+      .eq("batch_id", last.batch_id)
+      .is("undone_at", null)
+      .order("id", { ascending: true })
+      .range(offset, offset + MAX_ROWS_PER_REQUEST - 1);
+
+    if (error) throw error;
+    entries.push(...(data ?? []));
+    if (!data || data.length < MAX_ROWS_PER_REQUEST) break;
+  }
+
+  if (entries.length === 0) return [];
+
+  // Restoring would change transactions of a closed shift
+  for (let i = 0; i < entries.length; i += IDS_PER_REQUEST) {
+    const { data: touched, error: touchedError } = await supabase
+      .from("transactions")
+      .select("shift_id")
+      .in("id", entries.slice(i, i + IDS_PER_REQUEST).map((entry) => entry.transaction_id));
+
+    if (touchedError) throw touchedError;
+    await assertShiftsOpen(touched ?? []);
+  }
+
+  // Each entry is marked undone right after its transaction is restored. If a write fails midway,
+  // the next /desfazer picks up the rest of the batch instead of applying the restored part again.
+  const restored: AuditChange[] = [];
+  try {
+    for (const entry of entries) {
+      const { error: restoreError } = await supabase
+        .from("transactions")
+        .update(entry.old_values)
+        .eq("id", entry.transaction_id)
+        .eq("chat_id", chatId);
+
+      if (restoreError) throw restoreError;
+
+      const { error: undoneError } = await supabase
+        .from("transaction_audit")
+        .update({ undone_at: new Date().toISOString() })
+        .eq("id", entry.id);
+
+      if (undoneError) throw undoneError;
+      restored.push({ transactionId: entry.transaction_id, oldValues: entry.new_values, newValues: entry.old_values });
+    }
+  } finally {
+    await recordAudit(chatId, actor, "restore", restored);
+  }
+
+  return entries;
+}
+
+const ACTION_LABELS: Record<AuditAction, string> = {
+  update: "✏️ Editada",
+  delete: "🗑️ Apagada",
+  confirm: "✅ Confirmada",
+  restore: "↩️ Restaurada",
+};
+
+const FIELD_LABELS: Partial<Record<keyof Transaction, string>> = {
+  amount: "valor",
+  client_name: "cliente",
+  bank_detected: "banco",
+  payment_method: "forma de pagamento",
+  status: "status",
+  note: "nota",
+  created_at: "dia",
+};
+
+/** "valor: R$ 100,00 → R$ 150,00" for each field that changed */
+function describeChanges(entry: AuditEntry, formatWhen: (iso: string) => string): string[] {
+  return (Object.keys(entry.new_values) as (keyof Transaction)[])
+    .filter((field) => field !== "deleted_at" && field !== "client_id")
+    .map((field) => {
+      const format = (value: unknown) => {
+        if (value === null || value === undefined) return "-";
+        if (field === "amount") return formatCurrency(Number(value));
+        if (field === "created_at") return formatWhen(String(value));
+        return String(value);
+      };
+      const label = FIELD_LABELS[field] ?? field;
+      return `   ${label}: ${format(entry.old_values[field])} → ${format(entry.new_values[field])}`;
+    });
+}
+
+export async function getHistoryMessage(chatId: number, transaction: Transaction, position: number): Promise<string> {
+  const history = await getTransactionHistory(chatId, transaction.id!);
+  const { timeZone } = await getDaySettings(chatId);
+
+  const formatWhen = (iso: string) => {
+    const date = new Date(iso);
+    const day = date.toLocaleDateString("pt-BR", { day: "2-digit", month: "2-digit", timeZone });
+    return `${day} ${formatTimeInZone(date, timeZone)}`;
+  };
+
+  const header =
+    `📜 Histórico da transação #${position}\n` +
+    `${formatCurrency(transaction.amount)}${transaction.client_name ? ` - ${transaction.client_name}` : ""}\n\n` +
+    `🆕 Registrada em ${formatWhen(transaction.created_at!)}`;
+
+  if (history.length === 0) {
+    return `${header}\n\nNenhuma alteração.`;
+  }
+
+  const lines = history.map((entry) => {
+    const who = entry.actor_name ? ` por ${entry.actor_name}` : "";
+    const undone = entry.undone_at ? " (desfeita)" : "";
+    return [`${ACTION_LABELS[entry.action]} em ${formatWhen(entry.created_at!)}${who}${undone}`, ...describeChanges(entry, formatWhen)].join("\n");
+  });
+
+  return `${header}\n${lines.join("\n")}`;
+}
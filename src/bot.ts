@@ -1,18 +1,46 @@
-import { Bot, Context, InputFile, InlineKeyboard } from "grammy";
+import crypto from "crypto";
+import { Api, Bot, Context, InputFile, InlineKeyboard } from "grammy";
 import {
   saveTransaction,
   isDuplicate,
-  clearTodayTransactions,
+  findSavedReceipt,
+  clearTransactions,
   deleteTransactionByIndex,
   updateLastTransactionAmount,
-  getTodayTransactions,
+  getTransactionById,
+  getTransactions,
+  getTransactionsToClear,
+  saveManualTransaction,
+  confirmTransaction,
+  discardPendingTransaction,
+  updateTransaction,
+  PaymentMethod,
+  PAYMENT_METHODS,
+  ReceiptDetails,
+  Transaction,
+  TransactionSource,
 } from "./database.js";
-import { extractPixAmount, extractFromPdf } from "./vision.js";
+import { extractNotificationData, extractPixData } from "./vision.js";
+import { looksLikePaymentNotification, parseBRLAmount, parseManualEntry } from "./parser.js";
+import { ExtractedReceipt, ExtractionResult, MediaType } from "./extractor.js";
 import {
+  computeContentHash,
+  computeFingerprint,
+  computeImageHash,
+  findDuplicate,
+  getDuplicateReasonLabel,
+  DuplicateMatch,
+} from "./duplicates.js";
+import {
+  formatCurrency,
+  getBatchTotalMessage,
   getRunningTotalMessage,
   getDailySummaryMessage,
+  getPeriodSummaryMessage,
   getTransactionListMessage,
+  TransactionListPage,
 } from "./summary.js";
+import { formatPaymentMethod, PAYMENT_METHOD_LABELS } from "./labels.js";
 import {
   canProcess,
   incrementUsage,
@@ -21,7 +49,89 @@ import {
   PLANS,
   PlanType,
   activateSubscription,
+  CanProcessResult,
 } from "./subscription.js";
+import {
+  getReceiverProfile,
+  getReceiverProfileMessage,
+  getReceiverCheckMessage,
+  isReceiverCheckBlocking,
+  updateReceiverProfile,
+  validateReceiver,
+  ReceiverCheck,
+} from "./receiver.js";
+import { getCostReportMessage, linkExtractionCalls, recordExtractionCalls } from "./costs.js";
+import {
+  formatCutoff,
+  formatTimeInZone,
+  getBusinessDay,
+  getChatBusinessDay,
+  getDaySettings,
+  getDayPeriod,
+  getDaySettingsMessage,
+  getMonthPeriod,
+  getRangePeriod,
+  getWeekPeriod,
+  isValidRange,
+  isValidTimeZone,
+  moveToBusinessDay,
+  parseCutoff,
+  parseDateArg,
+  parseMonthArg,
+  parsePeriodArgs,
+  updateDaySettings,
+  DEFAULT_DAY_SETTINGS,
+  Period,
+} from "./businessday.js";
+import {
+  enqueueJob,
+  getPendingJobs,
+  getPendingJobsMessage,
+  startJobWorker,
+  JobKind,
+  JobPayload,
+  ReceiptFile,
+  ReceiptJob,
+} from "./jobs.js";
+import { getHistoryMessage, undoLastAction, Actor } from "./audit.js";
+import {
+  findClients,
+  getClientById,
+  getClientKey,
+  getClientMessage,
+  getClientRankingMessage,
+  mergeClients,
+  splitClient,
+  Client,
+} from "./clients.js";
+import {
+  getSearchResultsMessage,
+  getTransactionDetailsMessage,
+  parseSearchQuery,
+  searchTransactions,
+  SearchQuery,
+  SearchResultPage,
+  SEARCH_HELP,
+  SEARCH_RESULTS_PER_PAGE,
+} from "./search.js";
+import { archiveReceipt, buildReceiptsZip, computeFileHash, getArchivedReceipt } from "./storage.js";
+import { deleteAccount, exportPersonalData } from "./privacy.js";
+import { buildReport } from "./report.js";
+import { getGoalsMessage, setGoal, GoalKind } from "./goals.js";
+import {
+  closeShift,
+  getClosingReportMessage,
+  getOpenShift,
+  getOpenShiftMessage,
+  getReopenableShiftsMessage,
+  openShift,
+  parseDeclaredTotals,
+  recloseShift,
+  reopenShift,
+  ShiftClosedError,
+} from "./shifts.js";
+import { buildExport, getExportTransactions, ExportFormat, EXPORT_FORMAT_ARGS } from "./export.js";
+import { disableSchedule, getDefaultSendTime, getSchedulesMessage, setSchedule, ScheduleKind } from "./schedules.js";
 import { supabase } from "./database.js";
 import { createPixPayment, getPaymentMessage } from "./payments.js";
 
@@ -51,6 +161,95 @@ function setPendingMessage(chatId: number, messageId: number): void {
   pendingMessages.set(chatId, { messageId, createdAt: Date.now() });
 }
 
+// Receipts held back as suspected duplicates, waiting for the user's decision
+interface PendingDuplicate {
+  chatId: number;
+  fileId: string | null; // null for notification texts
+  receipt: ExtractedReceipt;
+  rawResponse: string;
+  details: ReceiptDetails;
+  createdAt: number;
+}
+const pendingDuplicates = new Map<string, PendingDuplicate>();
+const PENDING_DUPLICATE_TTL = 10 * 60 * 1000; // 10 minutes
+
+// Users that pressed "Digitar valor" on a low-confidence receipt and owe us the amount,
+// keyed by chat and user (see getAwaitingKey)
+interface AwaitingAmount {
+  transactionId: number;
+  promptMessageId: number; // in groups, only replies to this prompt are taken as the answer
+  createdAt: number;
+}
+const awaitingAmounts = new Map<string, AwaitingAmount>();
+const AWAITING_AMOUNT_TTL = 10 * 60 * 1000; // 10 minutes
+
+// Users that picked a field in the /editar menu and owe us its new value, keyed by chat and user
+type EditField = "valor" | "cliente" | "banco" | "nota" | "dia";
+interface AwaitingEdit {
+  transactionId: number;
+  position: number; // number shown in /hoje
+  field: EditField;
+  promptMessageId: number;
+  createdAt: number;
+}
+const awaitingEdits = new Map<string, AwaitingEdit>();
+const AWAITING_EDIT_TTL = 10 * 60 * 1000; // 10 minutes
+
+const EDIT_PROMPTS: Record<EditField, string> = {
+  valor: "Digite o novo valor (ex: 1500,50):",
+  cliente: "Digite o nome do cliente (ou - para remover):",
+  banco: "Digite o banco (ou - para remover):",
+  nota: "Digite a nota (ou - para remover):",
+  dia: "Digite o novo dia (ex: 15/10):",
+};
+
+// /buscar queries, kept so result pages can be turned without repeating the query in callback data
+interface SavedSearch {
+  chatId: number;
+  text: string;
+  query: SearchQuery;
+  createdAt: number;
+}
+const savedSearches = new Map<string, SavedSearch>();
+const SAVED_SEARCH_TTL = 30 * 60 * 1000; // 30 minutes
+
+// /meta dia|mes
+const GOAL_KIND_ARGS: Record<string, GoalKind> = {
+  dia: "daily",
+  diaria: "daily",
+  diária: "daily",
+  mes: "monthly",
+  mês: "monthly",
+  mensal: "monthly",
+};
+
+// /resumos diario|semanal|mensal
+const SCHEDULE_KIND_ARGS: Record<string, ScheduleKind> = {
+  diario: "daily",
+  diário: "daily",
+  semanal: "weekly",
+  mensal: "monthly",
+};
+
+/** Typed answers are waited for per user, so other members of a group keep talking freely */
+function getAwaitingKey(chatId: number, userId: number | undefined): string {
+  return `${chatId}:${userId ?? 0}`;
+}
+
+/** Drop every answer a chat's users still owe */
+function forgetAwaiting(chatId: number): void {
+  for (const map of [awaitingAmounts, awaitingEdits]) {
+    for (const key of map.keys()) {
+      if (key.startsWith(`${chatId}:`)) map.delete(key);
+    }
+  }
+}
+
+/** In groups the answer must be a reply to the prompt; in a private chat any message is */
+function isAnswerTo(ctx: Context, promptMessageId: number): boolean {
+  return ctx.chat?.type === "private" || ctx.message?.reply_to_message?.message_id === promptMessageId;
+}
+
 // Cleanup expired pending messages periodically
 function startPendingMessageCleanup(bot: Bot): void {
   setInterval(async () => {
@@ -61,6 +260,27 @@ function startPendingMessageCleanup(bot: Bot): void {
         await clearPendingMessage(bot, chatId);
       }
     }
+    for (const [key, pending] of pendingDuplicates.entries()) {
+      if (now - pending.createdAt > PENDING_DUPLICATE_TTL) {
+        console.log(`[cleanup] Expiring pending duplicate ${key} for chat ${pending.chatId}`);
+        pendingDuplicates.delete(key);
+      }
+    }
+    for (const [key, awaiting] of awaitingAmounts.entries()) {
+      if (now - awaiting.createdAt > AWAITING_AMOUNT_TTL) {
+        awaitingAmounts.delete(key);
+      }
+    }
+    for (const [key, awaiting] of awaitingEdits.entries()) {
+      if (now - awaiting.createdAt > AWAITING_EDIT_TTL) {
+        awaitingEdits.delete(key);
+      }
+    }
+    for (const [key, search] of savedSearches.entries()) {
+      if (now - search.createdAt > SAVED_SEARCH_TTL) {
+        savedSearches.delete(key);
+      }
+    }
   }, 30 * 1000); // Check every 30 seconds
 }
 
@@ -70,6 +290,15 @@ export async function createBot(token: string): Promise<Bot> {
   // Global error handler - prevents crashes
   bot.catch((err) => {
     const ctx = err.ctx;
+    if (err.error instanceof ShiftClosedError) {
+      ctx
+        .reply(
+          `🔒 Essa transação é do caixa #${err.error.shiftId}, já fechado. ` +
+            `Um administrador pode reabri-lo com /reabrircaixa ${err.error.shiftId}.`
+        )
+        .catch(() => {});
+      return;
+    }
     console.error(`Error while handling update ${ctx.update.update_id}:`, err.error);
     ctx.reply("❌ Ocorreu um erro. Tente novamente.").catch(() => {});
   });
@@ -77,6 +306,12 @@ export async function createBot(token: string): Promise<Bot> {
   // Start periodic cleanup of expired pending messages
   startPendingMessageCleanup(bot);
 
+  // Receipts are processed by the job worker pool, outside the webhook request
+  await startJobWorker({
+    process: (job) => processJob(bot.api, job),
+    onFailed: (job) => reportFailedJob(bot.api, job),
+  });
+
   // Middleware: Clear pending messages on any new message (except callback queries)
   bot.use(async (ctx, next) => {
     if (ctx.message && ctx.chat) {
@@ -96,22 +331,68 @@ export async function createBot(token: string): Promise<Bot> {
     { command: "plano", description: "Ver seu plano e uso" },
     { command: "total", description: "Ver total do dia" },
     { command: "hoje", description: "Listar transações de hoje" },
+    { command: "dia", description: "Vendas de um dia (ex: /dia 15/10)" },
+    { command: "semana", description: "Vendas da semana" },
+    { command: "mes", description: "Vendas do mês (ex: /mes 09/2026)" },
+    { command: "periodo", description: "Vendas de um período (ex: /periodo 01/10 15/10)" },
+    { command: "comprovante", description: "Reenviar o comprovante original (ex: /comprovante 1)" },
+    { command: "buscar", description: "Buscar transações (ex: /buscar maria >100)" },
+    { command: "relatorio", description: "Relatório com gráficos (ex: /relatorio semana)" },
+    { command: "exportar", description: "Exportar CSV, Excel, OFX ou PDF (ex: /exportar mes pdf)" },
+    { command: "clientes", description: "Ranking de clientes (ex: /clientes semana)" },
+    { command: "cliente", description: "Histórico de um cliente (ex: /cliente Maria)" },
+    { command: "add", description: "Lançar venda manual (ex: /add 150,00 João dinheiro)" },
     { command: "apagar", description: "Apagar transação (ex: /apagar 1)" },
-    { command: "editar", description: "Editar última transação" },
+    { command: "editar", description: "Editar uma transação (ex: /editar 1)" },
     { command: "limpar", description: "Limpar todas transações de hoje" },
+    { command: "desfazer", description: "Desfazer a última exclusão ou edição" },
+    { command: "historico", description: "Histórico de alterações (ex: /historico 1)" },
+    { command: "recebedor", description: "Cadastrar seus dados de recebedor PIX" },
+    { command: "fila", description: "Ver comprovantes aguardando processamento" },
+    { command: "horario", description: "Fuso horário e virada do dia" },
+    { command: "resumos", description: "Resumos automáticos diário, semanal e mensal" },
+    { command: "meta", description: "Metas de faturamento do dia e do mês" },
+    { command: "abrircaixa", description: "Abrir o caixa do turno (ex: /abrircaixa 100,00)" },
+    { command: "fecharcaixa", description: "Fechar o caixa com os valores contados" },
+    { command: "reabrircaixa", description: "Reabrir um caixa fechado para correções (admin)" },
+    { command: "meusdados", description: "Baixar todos os seus dados (LGPD)" },
+    { command: "excluirconta", description: "Excluir sua conta e todos os dados" },
   ]);
 
   // Handle /start command
   bot.command("start", async (ctx) => {
     await ctx.reply(
       "🏦 PIX Totalizer\n\n" +
-        "Encaminhe comprovantes PIX (imagens ou PDFs) para registrar.\n\n" +
+        "Encaminhe comprovantes de PIX, TED, boleto ou maquininha (imagens ou PDFs) para registrar.\n" +
+        "Também vale encaminhar a notificação do banco (ex: Pix recebido: R$ 85,00 de MARIA S), ou colá-la no chat privado.\n\n" +
         "Comandos:\n" +
         "/total - Ver total do dia\n" +
         "/hoje - Listar transações\n" +
+        "/dia 15/10 - Vendas de um dia\n" +
+        "/semana - Vendas da semana\n" +
+        "/mes 09/2026 - Vendas do mês\n" +
+        "/periodo 01/10 15/10 - Vendas de um período\n" +
+        "/comprovante 1 - Reenviar o comprovante original\n" +
+        "/buscar maria >100 - Buscar em todas as transações\n" +
+        "/relatorio mes - Relatório com gráficos do período\n" +
+        "/exportar mes xlsx - Exportar em CSV, Excel, OFX ou PDF\n" +
+        "/clientes mes - Ranking de clientes do período\n" +
+        "/cliente Maria - Visitas, ticket médio e último pagamento\n" +
+        "/add 150,00 João dinheiro - Lançar venda sem comprovante\n" +
         "/apagar - Apagar transação (/apagar 1)\n" +
-        "/editar 150.00 - Editar valor\n" +
-        "/limpar - Zerar tudo de hoje"
+        "/editar 1 - Editar valor, cliente, banco, forma, nota ou dia\n" +
+        "/limpar - Zerar tudo de hoje\n" +
+        "/desfazer - Desfazer a última exclusão ou edição\n" +
+        "/historico 1 - Quem alterou a transação e quando\n" +
+        "/recebedor - Cadastrar seus dados de recebedor PIX\n" +
+        "/fila - Ver comprovantes aguardando processamento\n" +
+        "/horario - Fuso horário e virada do dia\n" +
+        "/resumos - Receber resumos diário, semanal e mensal\n" +
+        "/meta dia 1.000,00 - Metas de faturamento do dia e do mês\n" +
+        "/abrircaixa 100,00 - Abrir o caixa do turno com o troco\n" +
+        "/fecharcaixa - Fechar o caixa e conferir os valores\n" +
+        "/meusdados - Baixar todos os seus dados\n" +
+        "/excluirconta - Excluir sua conta e todos os dados"
     );
   });
 
@@ -125,14 +406,318 @@ export async function createBot(token: string): Promise<Bot> {
   // Handle /hoje command
   bot.command("hoje", async (ctx) => {
     const chatId = ctx.chat.id;
-    const message = await getTransactionListMessage(chatId);
+    const today = await getChatBusinessDay(chatId);
+    const period = getDayPeriod(await getDaySettings(chatId), today.date);
+    const list = await getTransactionListMessage(chatId, period);
+    await ctx.reply(list.text, { reply_markup: getListKeyboard(period, list) });
+  });
+
+  // Handle /dia command - any past day, e.g. /dia 15/10
+  bot.command("dia", async (ctx) => {
+    const chatId = ctx.chat.id;
+    const settings = await getDaySettings(chatId);
+    const arg = ctx.message?.text?.split(" ")[1];
+    const date = arg ? parseDateArg(arg, getBusinessDay(settings)) : getBusinessDay(settings).date;
+
+    if (!date) {
+      await ctx.reply("Use: /dia 15/10 ou /dia 15/10/2026");
+      return;
+    }
+
+    await replyWithPeriodReport(ctx, getDayPeriod(settings, date));
+  });
+
+  // Handle /semana command - Monday to Sunday of the current week
+  bot.command("semana", async (ctx) => {
+    const settings = await getDaySettings(ctx.chat.id);
+    await replyWithPeriodReport(ctx, getWeekPeriod(settings));
+  });
+
+  // Handle /mes command - current month, or /mes 09/2026
+  bot.command("mes", async (ctx) => {
+    const chatId = ctx.chat.id;
+    const settings = await getDaySettings(chatId);
+    const today = getBusinessDay(settings);
+    const arg = ctx.message?.text?.split(" ")[1];
+    const month = arg
+      ? parseMonthArg(arg, today)
+      : { year: parseInt(today.date.slice(0, 4), 10), month: parseInt(today.date.slice(5, 7), 10) };
+
+    if (!month) {
+      await ctx.reply("Use: /mes ou /mes 09/2026");
+      return;
+    }
+
+    await replyWithPeriodReport(ctx, getMonthPeriod(settings, month.year, month.month));
+  });
+
+  // Handle /periodo command - custom range, e.g. /periodo 01/10 15/10
+  bot.command("periodo", async (ctx) => {
+    const chatId = ctx.chat.id;
+    const settings = await getDaySettings(chatId);
+    const today = getBusinessDay(settings);
+    const [fromArg, toArg] = (ctx.message?.text ?? "").split(" ").slice(1).filter(Boolean);
+    const from = fromArg ? parseDateArg(fromArg, today) : null;
+    const to = toArg ? parseDateArg(toArg, today) : null;
+
+    if (!from || !to) {
+      await ctx.reply("Use: /periodo 01/10 15/10\n\nExemplo: /periodo 01/09/2026 30/09/2026");
+      return;
+    }
+
+    if (!isValidRange(from, to)) {
+      await ctx.reply("❌ Período inválido. A data inicial deve vir antes da final, com no máximo 1 ano entre elas.");
+      return;
+    }
+
+    await replyWithPeriodReport(ctx, getRangePeriod(settings, from, to));
+  });
+
+  // Handle transaction list page navigation
+  bot.callbackQuery(/^lista:(\d{8}):(\d{8}):(\d+)$/, async (ctx) => {
+    const chatId = ctx.chat!.id;
+    const toDate = (compact: string) => `${compact.slice(0, 4)}-${compact.slice(4, 6)}-${compact.slice(6)}`;
+    const period = getRangePeriod(await getDaySettings(chatId), toDate(ctx.match[1]), toDate(ctx.match[2]));
+
+    const list = await getTransactionListMessage(chatId, period, parseInt(ctx.match[3], 10));
+    await ctx.answerCallbackQuery();
+    await ctx.editMessageText(list.text, { reply_markup: getListKeyboard(period, list) }).catch(() => {});
+  });
+
+  // Handle /buscar command - search every transaction of the chat
+  bot.command("buscar", async (ctx) => {
+    const chatId = ctx.chat.id;
+    const text = ctx.message?.text?.split(" ").slice(1).join(" ").trim() ?? "";
+
+    if (!text) {
+      await ctx.reply(SEARCH_HELP);
+      return;
+    }
+
+    const query = await parseSearchQuery(chatId, text);
+    if (typeof query === "string") {
+      await ctx.reply(`${query}\n\n${SEARCH_HELP}`);
+      return;
+    }
+
+    const key = crypto.randomBytes(6).toString("hex");
+    savedSearches.set(key, { chatId, text, query, createdAt: Date.now() });
+
+    const results = await searchTransactions(chatId, query);
+    const message = await getSearchResultsMessage(chatId, text, results);
+    await ctx.reply(message, { reply_markup: getSearchKeyboard(key, results) });
+  });
+
+  // Handle search result page navigation
+  bot.callbackQuery(/^busca:(\w+):(\d+)$/, async (ctx) => {
+    const chatId = ctx.chat!.id;
+    const search = savedSearches.get(ctx.match[1]);
+
+    if (!search || search.chatId !== chatId) {
+      await ctx.answerCallbackQuery({ text: "Busca expirada. Use /buscar novamente." });
+      return;
+    }
+
+    const results = await searchTransactions(chatId, search.query, parseInt(ctx.match[2], 10));
+    const message = await getSearchResultsMessage(chatId, search.text, results);
+    await ctx.answerCallbackQuery();
+    await ctx.editMessageText(message, { reply_markup: getSearchKeyboard(ctx.match[1], results) }).catch(() => {});
+  });
+
+  // Handle a search result's details
+  bot.callbackQuery(/^transacao:(\d+)$/, async (ctx) => {
+    const chatId = ctx.chat!.id;
+    const transaction = await getTransactionById(chatId, parseInt(ctx.match[1], 10));
+    await ctx.answerCallbackQuery();
+
+    if (!transaction) {
+      await ctx.reply("Transação não encontrada.");
+      return;
+    }
+
+    const message = await getTransactionDetailsMessage(chatId, transaction);
+    const keyboard = transaction.telegram_file_id || transaction.receipt_path
+      ? new InlineKeyboard().text("🧾 Ver comprovante", `original:${transaction.id}`)
+      : undefined;
+    await ctx.reply(message, { reply_markup: keyboard });
+  });
+
+  // Handle the original receipt button
+  bot.callbackQuery(/^original:(\d+)$/, async (ctx) => {
+    const chatId = ctx.chat!.id;
+    const transaction = await getTransactionById(chatId, parseInt(ctx.match[1], 10));
+    await ctx.answerCallbackQuery();
+
+    if (!transaction || !(await sendOriginalReceipt(ctx.api, chatId, transaction))) {
+      await ctx.reply("❌ Comprovante original não disponível.");
+    }
+  });
+
+  // Handle /comprovante N - send back the original file of a transaction of /hoje
+  bot.command("comprovante", async (ctx) => {
+    const chatId = ctx.chat.id;
+    const position = parseInt(ctx.message?.text?.split(" ")[1] ?? "", 10);
+
+    if (isNaN(position)) {
+      await ctx.reply("Use: /comprovante 3\n\n(o número da transação em /hoje)");
+      return;
+    }
+
+    const transactions = await getTransactions(chatId, await getChatBusinessDay(chatId));
+    const transaction = transactions[position - 1];
+
+    if (!transaction) {
+      await ctx.reply(`❌ Transação #${position} não encontrada. Veja a lista em /hoje.`);
+      return;
+    }
+
+    if (!(await sendOriginalReceipt(ctx.api, chatId, transaction))) {
+      const reason = transaction.source === "receipt" ? "o arquivo não está mais disponível" : "foi lançada sem comprovante";
+      await ctx.reply(`❌ Transação #${position}: ${reason}.`);
+    }
+  });
+
+  // Handle /clientes command - ranking by amount and frequency, current month by default
+  bot.command("clientes", async (ctx) => {
+    const chatId = ctx.chat.id;
+    const settings = await getDaySettings(chatId);
+    const args = (ctx.message?.text ?? "").split(" ").slice(1).filter(Boolean);
+    const period = parsePeriodArgs(settings, args.length > 0 ? args : ["mes"]);
+
+    if (!period) {
+      await ctx.reply("Use: /clientes [hoje | semana | mes | 09/2026 | 01/10 15/10]");
+      return;
+    }
+
+    await ctx.reply(await getClientRankingMessage(chatId, period));
+  });
+
+  // Handle /relatorio command - charts of a period, the current month by default
+  bot.command("relatorio", async (ctx) => {
+    const chatId = ctx.chat.id;
+    const settings = await getDaySettings(chatId);
+    const args = (ctx.message?.text ?? "").split(" ").slice(1).filter(Boolean);
+    const period = parsePeriodArgs(settings, args.length > 0 ? args : ["mes"]);
+
+    if (!period) {
+      await ctx.reply("Use: /relatorio [semana | mes | 09/2026 | 01/10 15/10]");
+      return;
+    }
+
+    await ctx.replyWithChatAction("upload_photo");
+    const report = await buildReport(chatId, period);
+    if (!report) {
+      await ctx.reply(`Nenhuma venda em ${period.label}.`);
+      return;
+    }
+
+    await ctx.replyWithPhoto(new InputFile(report.image, "relatorio.png"), { caption: report.caption });
+  });
+
+  // Handle /cliente command - one client's history, or merging and splitting clients
+  bot.command("cliente", async (ctx) => {
+    const chatId = ctx.chat.id;
+    const args = ctx.message?.text?.split(" ").slice(1).join(" ").trim() ?? "";
+    const [subcommand, ...rest] = args.split(" ");
+
+    if (!args) {
+      await ctx.reply(
+        "Use: /cliente Maria Silva\n\n" +
+          "Juntar dois clientes: /cliente juntar Maria Silva + Maria S\n" +
+          "Separar uma grafia: /cliente separar Maria S"
+      );
+      return;
+    }
+
+    if (subcommand.toLowerCase() === "juntar") {
+      const names = rest.join(" ").split("+").map((name) => name.trim());
+      if (names.length !== 2 || !names[0] || !names[1]) {
+        await ctx.reply("Use: /cliente juntar Maria Silva + Maria S");
+        return;
+      }
+
+      const [targets, sources] = await Promise.all(names.map((name) => findClients(chatId, name)));
+      if (targets.length !== 1 || sources.length !== 1) {
+        const missing = targets.length !== 1 ? names[0] : names[1];
+        await ctx.reply(`❌ Não encontrei um único cliente para "${missing}". Use o nome como aparece em /clientes.`);
+        return;
+      }
+      if (targets[0].id === sources[0].id) {
+        await ctx.reply("Esses nomes já são do mesmo cliente.");
+        return;
+      }
+
+      const merged = await mergeClients(chatId, targets[0], sources[0]);
+      await ctx.reply(`🔗 ${sources[0].name} juntado a ${merged.name}.\n\n${await getClientMessage(chatId, merged)}`);
+      return;
+    }
+
+    if (subcommand.toLowerCase() === "separar") {
+      const name = rest.join(" ").trim();
+      const [client] = name ? await findClients(chatId, name) : [];
+
+      if (!client || !client.aliases.includes(getClientKey(name))) {
+        await ctx.reply("❌ Grafia não encontrada. Use: /cliente separar Maria S");
+        return;
+      }
+
+      const created = await splitClient(chatId, client, name);
+      if (!created) {
+        await ctx.reply("Esse nome já é um cliente separado.");
+        return;
+      }
+
+      await ctx.reply(`✂️ ${created.name} separado de ${client.name}.\n\n${await getClientMessage(chatId, created)}`);
+      return;
+    }
+
+    const clients = await findClients(chatId, args);
+    await replyWithClients(ctx, clients, args);
+  });
+
+  // Handle client choice when /cliente found several
+  bot.callbackQuery(/^cliente:(\d+)$/, async (ctx) => {
+    const chatId = ctx.chat!.id;
+    const client = await getClientById(chatId, parseInt(ctx.match[1], 10));
+
+    await ctx.answerCallbackQuery();
+    if (!client) {
+      await ctx.reply("Cliente não encontrado.");
+      return;
+    }
+    await ctx.reply(await getClientMessage(chatId, client));
+  });
+
+  // Handle /fila command - receipts still waiting in the job queue
+  bot.command("fila", async (ctx) => {
+    const message = await getPendingJobsMessage(ctx.chat.id);
     await ctx.reply(message);
   });
 
+  // Handle /add command - manual entry for cash and sales without a receipt
+  bot.command("add", async (ctx) => {
+    const chatId = ctx.chat.id;
+    const entry = parseManualEntry(ctx.message?.text?.split(" ").slice(1).join(" ") ?? "");
+
+    if (!entry) {
+      await ctx.reply(
+        "Use: /add <valor> [cliente] [forma de pagamento]\n\n" +
+        "Exemplos:\n/add 150,00\n/add 1.500,50 João dinheiro\n/add 80 Maria débito"
+      );
+      return;
+    }
+
+    await saveManualTransaction(chatId, entry.amount, entry.clientName, entry.paymentMethod);
+
+    const message = await getRunningTotalMessage(chatId, entry.amount, null, entry.clientName);
+    await ctx.reply(`✍️ Lançamento manual (${formatPaymentMethod({ payment_method: entry.paymentMethod })})\n${message}`);
+  });
+
   // Handle /apagar command - show transactions with delete buttons
   bot.command("apagar", async (ctx) => {
     const chatId = ctx.chat.id;
-    const transactions = await getTodayTransactions(chatId);
+    const transactions = await getTransactions(chatId, await getChatBusinessDay(chatId));
+    const { timeZone } = await getDaySettings(chatId);
 
     if (transactions.length === 0) {
       await ctx.reply("Nenhuma transação para apagar hoje.");
@@ -141,10 +726,7 @@ export async function createBot(token: string): Promise<Bot> {
 
     const keyboard = new InlineKeyboard();
     transactions.forEach((t, i) => {
-      const time = new Date(t.created_at!).toLocaleTimeString("pt-BR", {
-        hour: "2-digit",
-        minute: "2-digit",
-      });
+      const time = formatTimeInZone(new Date(t.created_at!), timeZone);
       const amount = t.amount.toLocaleString("pt-BR", { style: "currency", currency: "BRL" });
       keyboard.text(`${i + 1}. ${time} - ${amount}`, `apagar:${i + 1}`).row();
     });
@@ -163,79 +745,646 @@ export async function createBot(token: string): Promise<Bot> {
     const chatId = ctx.chat!.id;
     console.log(`[apagar callback] action=${action}, chatId=${chatId}`);
 
-    // Clear from pending map
-    pendingMessages.delete(chatId);
+    // Clear from pending map
+    pendingMessages.delete(chatId);
+
+    if (action === "cancelar") {
+      await ctx.answerCallbackQuery({ text: "Cancelado" });
+      await ctx.deleteMessage();
+      return;
+    }
+
+    const index = parseInt(action, 10);
+    if (isNaN(index)) {
+      console.log(`[apagar callback] invalid index: ${action}`);
+      await ctx.answerCallbackQuery({ text: "Erro" });
+      return;
+    }
+
+    console.log(`[apagar callback] deleting index ${index}`);
+    const deleted = await deleteTransactionByIndex(chatId, await getChatBusinessDay(chatId), index, getActor(ctx));
+    console.log(`[apagar callback] deleted:`, deleted);
+
+    if (deleted) {
+      const amount = deleted.amount.toLocaleString("pt-BR", { style: "currency", currency: "BRL" });
+      await ctx.answerCallbackQuery({ text: `Apagada: ${amount}` });
+      await ctx.deleteMessage();
+      const message = await getDailySummaryMessage(chatId);
+      await ctx.reply(`🗑️ Transação #${index} apagada: ${amount}\n\n${message}\n\nUse /desfazer para restaurar.`);
+    } else {
+      console.log(`[apagar callback] transaction not found`);
+      await ctx.answerCallbackQuery({ text: "Transação não encontrada" });
+      await ctx.deleteMessage();
+    }
+  });
+
+  // Handle suspected duplicate decision
+  bot.callbackQuery(/^duplicado:(registrar|descartar):(\w+)$/, async (ctx) => {
+    const action = ctx.match[1];
+    const key = ctx.match[2];
+    const chatId = ctx.chat!.id;
+
+    const pending = pendingDuplicates.get(key);
+    if (!pending || pending.chatId !== chatId) {
+      await ctx.answerCallbackQuery({ text: "Comprovante expirado. Envie novamente." });
+      await ctx.deleteMessage().catch(() => {});
+      return;
+    }
+
+    pendingDuplicates.delete(key);
+    await ctx.deleteMessage().catch(() => {});
+
+    if (action === "descartar") {
+      await ctx.answerCallbackQuery({ text: "Descartado" });
+      return;
+    }
+
+    // Registering the receipt counts against the plan like any other
+    const check = await canProcess(chatId);
+    if (!check.allowed) {
+      await ctx.answerCallbackQuery({ text: "Limite do plano atingido" });
+      await ctx.reply(getLimitReachedMessage(check));
+      return;
+    }
+
+    await ctx.answerCallbackQuery({ text: "Registrando..." });
+    const saved = await saveReceipt(chatId, pending.fileId, pending.receipt, pending.rawResponse, pending.details);
+
+    if (saved.status === "pending") {
+      await askForReview(ctx.api, saved, pending.receipt);
+      return;
+    }
+
+    const { amount, bank, clientName } = pending.receipt;
+    const message = await getRunningTotalMessage(chatId, amount!, bank, clientName);
+    await ctx.reply(message);
+  });
+
+  // Handle low-confidence review decision
+  bot.callbackQuery(/^revisar:(confirmar|valor|digitar|descartar):(\d+)(?::([\d.]+))?$/, async (ctx) => {
+    const action = ctx.match[1];
+    const transactionId = parseInt(ctx.match[2], 10);
+    const chatId = ctx.chat!.id;
+
+    if (action === "digitar") {
+      await ctx.answerCallbackQuery();
+      const prompt = await ctx.reply("✏️ Responda a esta mensagem com o valor correto (ex: 1500,50):", {
+        reply_markup: { force_reply: true },
+      });
+      awaitingAmounts.set(getAwaitingKey(chatId, ctx.from.id), {
+        transactionId,
+        promptMessageId: prompt.message_id,
+        createdAt: Date.now(),
+      });
+      return;
+    }
+
+    if (action === "descartar") {
+      const discarded = await discardPendingTransaction(chatId, transactionId, getActor(ctx));
+      await ctx.answerCallbackQuery({ text: discarded ? "Descartado" : "Comprovante já revisado" });
+      await ctx.deleteMessage().catch(() => {});
+      return;
+    }
+
+    // "confirmar" keeps the extracted amount, "valor" picks one of the candidates
+    const amount = action === "valor" ? parseFloat(ctx.match[3]) : undefined;
+    const confirmed = await confirmTransaction(chatId, transactionId, getActor(ctx), amount);
+
+    if (!confirmed) {
+      await ctx.answerCallbackQuery({ text: "Comprovante já revisado" });
+      await ctx.deleteMessage().catch(() => {});
+      return;
+    }
+
+    await ctx.answerCallbackQuery({ text: "Confirmado" });
+    await ctx.deleteMessage().catch(() => {});
+    const message = await getRunningTotalMessage(
+      chatId,
+      confirmed.amount,
+      confirmed.bank_detected,
+      confirmed.client_name
+    );
+    await ctx.reply(message);
+  });
+
+  // Handle /editar command - open the editor for a transaction of /hoje ("/editar 3"),
+  // or correct the last transaction's amount ("/editar 150,00")
+  bot.command("editar", async (ctx) => {
+    const chatId = ctx.chat.id;
+    const args = ctx.message?.text?.split(" ").slice(1).join(" ").trim();
+
+    if (!args) {
+      await ctx.reply(
+        "Use: /editar 3 (o número da transação em /hoje)\n\n" +
+          "Para corrigir só o valor da última: /editar 1500,50"
+      );
+      return;
+    }
+
+    if (/^\d+$/.test(args)) {
+      const position = parseInt(args, 10);
+      const transactions = await getTransactions(chatId, await getChatBusinessDay(chatId));
+      const transaction = transactions[position - 1];
+
+      if (!transaction) {
+        await ctx.reply(
+          `❌ Transação #${position} não encontrada. Veja a lista em /hoje.\n\n` +
+            `Para corrigir o valor da última, use centavos: /editar ${position},00`
+        );
+        return;
+      }
+
+      await clearPendingMessage(bot, chatId);
+      awaitingEdits.delete(getAwaitingKey(chatId, ctx.from?.id));
+      const fields = await formatEditableFields(chatId, transaction);
+      const sent = await ctx.reply(`✏️ Editar transação #${position}\n\n${fields}\n\nO que deseja alterar?`, {
+        reply_markup: getEditorKeyboard(transaction.id!, position),
+      });
+      setPendingMessage(chatId, sent.message_id);
+      return;
+    }
+
+    const newAmount = parseBRLAmount(args);
+
+    if (newAmount === null) {
+      await ctx.reply("❌ Valor inválido. Use: /editar 150.00");
+      return;
+    }
+
+    const updated = await updateLastTransactionAmount(
+      chatId,
+      await getChatBusinessDay(chatId),
+      newAmount,
+      getActor(ctx)
+    );
+
+    if (updated) {
+      const amountStr = newAmount.toLocaleString("pt-BR", { style: "currency", currency: "BRL" });
+      const message = await getDailySummaryMessage(chatId);
+      await ctx.reply(`✏️ Última transação editada para: ${amountStr}\n\n${message}`);
+    } else {
+      await ctx.reply("Nenhuma transação para editar hoje.");
+    }
+  });
+
+  // Handle /editar menu choices
+  bot.callbackQuery(/^editar:(\d+):(\d+):(valor|cliente|banco|forma|nota|dia|cancelar)(?::(\w+))?$/, async (ctx) => {
+    const chatId = ctx.chat!.id;
+    const transactionId = parseInt(ctx.match[1], 10);
+    const position = parseInt(ctx.match[2], 10);
+    const action = ctx.match[3];
+    const method = ctx.match[4] as PaymentMethod | undefined;
+
+    if (action === "cancelar") {
+      pendingMessages.delete(chatId);
+      await ctx.answerCallbackQuery({ text: "Cancelado" });
+      await ctx.deleteMessage().catch(() => {});
+      return;
+    }
+
+    if (action === "forma" && !method) {
+      // Second step: pick the new payment method
+      const keyboard = new InlineKeyboard();
+      PAYMENT_METHODS.forEach((m, i) => {
+        keyboard.text(PAYMENT_METHOD_LABELS[m], `editar:${transactionId}:${position}:forma:${m}`);
+        if (i % 4 === 3) keyboard.row();
+      });
+      keyboard.row().text("❌ Cancelar", `editar:${transactionId}:${position}:cancelar`);
+
+      await ctx.answerCallbackQuery();
+      await ctx.editMessageReplyMarkup({ reply_markup: keyboard });
+      return;
+    }
+
+    if (action === "forma") {
+      pendingMessages.delete(chatId);
+      await ctx.answerCallbackQuery();
+      await ctx.deleteMessage().catch(() => {});
+
+      if (!PAYMENT_METHODS.includes(method!)) return;
+      await applyEdit(ctx, transactionId, position, { payment_method: method, card_brand: null, installments: null });
+      return;
+    }
+
+    // The other fields need a typed value
+    pendingMessages.delete(chatId);
+    await ctx.answerCallbackQuery();
+    await ctx.deleteMessage().catch(() => {});
+    const prompt = await ctx.reply(`✏️ Transação #${position}: ${EDIT_PROMPTS[action as EditField]}`, {
+      reply_markup: { force_reply: true },
+    });
+    awaitingEdits.set(getAwaitingKey(chatId, ctx.from.id), {
+      transactionId,
+      position,
+      field: action as EditField,
+      promptMessageId: prompt.message_id,
+      createdAt: Date.now(),
+    });
+  });
+
+  // Handle /limpar command - clear all today's transactions, after confirmation
+  bot.command("limpar", async (ctx) => {
+    const chatId = ctx.chat.id;
+    await clearPendingMessage(bot, chatId);
+
+    const today = await getChatBusinessDay(chatId);
+    const transactions = await getTransactionsToClear(chatId, today);
+
+    if (transactions.length === 0) {
+      await ctx.reply("Nenhuma transação para limpar hoje.");
+      return;
+    }
+
+    const total = transactions.reduce((sum, t) => sum + (t.status === "confirmed" ? t.amount : 0), 0);
+    const keyboard = new InlineKeyboard()
+      .text("🧹 Sim, limpar", "limpar:confirmar")
+      .text("❌ Cancelar", "limpar:cancelar");
+
+    const sent = await ctx.reply(
+      `⚠️ Apagar ${transactions.length} transação(ões) de hoje (${formatCurrency(total)})?\n\n` +
+        `Você poderá restaurá-las com /desfazer.`,
+      { reply_markup: keyboard }
+    );
+    setPendingMessage(chatId, sent.message_id);
+  });
+
+  // Handle /limpar confirmation
+  bot.callbackQuery(/^limpar:(confirmar|cancelar)$/, async (ctx) => {
+    const chatId = ctx.chat!.id;
+    pendingMessages.delete(chatId);
+
+    if (ctx.match[1] === "cancelar") {
+      await ctx.answerCallbackQuery({ text: "Cancelado" });
+      await ctx.deleteMessage().catch(() => {});
+      return;
+    }
+
+    const count = await clearTransactions(chatId, await getChatBusinessDay(chatId), getActor(ctx));
+    await ctx.answerCallbackQuery({ text: "Limpo" });
+    await ctx.deleteMessage().catch(() => {});
+
+    if (count > 0) {
+      await ctx.reply(`🧹 ${count} transação(ões) apagada(s). Total zerado.\n\nUse /desfazer para restaurar.`);
+    } else {
+      await ctx.reply("Nenhuma transação para limpar hoje.");
+    }
+  });
+
+  // Handle /desfazer command - restore the last deletion or edit
+  bot.command("desfazer", async (ctx) => {
+    const chatId = ctx.chat.id;
+    const undone = await undoLastAction(chatId, getActor(ctx));
+
+    if (undone.length === 0) {
+      await ctx.reply("Nada para desfazer.");
+      return;
+    }
+
+    const what = undone[0].action === "delete"
+      ? `${undone.length} transação(ões) restaurada(s)`
+      : `Edição de ${undone.length} transação(ões) desfeita`;
+    const message = await getDailySummaryMessage(chatId);
+    await ctx.reply(`↩️ ${what}.\n\n${message}`);
+  });
+
+  // Handle /historico N - who changed a transaction of today's list, and when
+  bot.command("historico", async (ctx) => {
+    const chatId = ctx.chat.id;
+    const position = parseInt(ctx.message?.text?.split(" ")[1] ?? "", 10);
+
+    if (isNaN(position)) {
+      await ctx.reply("Use: /historico 3\n\n(o número da transação em /hoje)");
+      return;
+    }
+
+    const transactions = await getTransactions(chatId, await getChatBusinessDay(chatId));
+    const transaction = transactions[position - 1];
+
+    if (!transaction) {
+      await ctx.reply(`❌ Transação #${position} não encontrada. Veja a lista em /hoje.`);
+      return;
+    }
+
+    await ctx.reply(await getHistoryMessage(chatId, transaction, position));
+  });
+
+  // Handle /meusdados command - everything stored about the chat (LGPD)
+  bot.command("meusdados", async (ctx) => {
+    const chatId = ctx.chat.id;
+    // A group's export holds every payer's data, so only its admins get it
+    if (!(await isChatAdmin(ctx))) {
+      await ctx.reply("⛔ Apenas administradores do grupo podem baixar os dados.");
+      return;
+    }
+
+    await ctx.reply("⏳ Preparando seus dados...");
+
+    const { zip, transactions, files } = await exportPersonalData(chatId);
+    await ctx.replyWithDocument(new InputFile(zip, `meus_dados_${chatId}.zip`), {
+      caption: `🔐 Seus dados: ${transactions} transação(ões) e ${files} comprovante(s).\n\ndados.json traz tudo o que guardamos sobre este chat.`,
+    });
+  });
+
+  // Handle /excluirconta command - erase the chat's data, after confirmation
+  bot.command("excluirconta", async (ctx) => {
+    const chatId = ctx.chat.id;
+    if (!(await isChatAdmin(ctx))) {
+      await ctx.reply("⛔ Apenas administradores do grupo podem excluir a conta.");
+      return;
+    }
+
+    await clearPendingMessage(bot, chatId);
+
+    const keyboard = new InlineKeyboard()
+      .text("🗑️ Sim, excluir tudo", "excluirconta:confirmar")
+      .text("❌ Cancelar", "excluirconta:cancelar");
+
+    const sent = await ctx.reply(
+      "⚠️ Excluir sua conta?\n\n" +
+        "Todas as transações, comprovantes, clientes, configurações e o seu plano serão apagados " +
+        "definitivamente. Isso não pode ser desfeito.\n\n" +
+        "Se quiser uma cópia antes, use /meusdados.",
+      { reply_markup: keyboard }
+    );
+    setPendingMessage(chatId, sent.message_id);
+  });
+
+  // Handle /excluirconta confirmation
+  bot.callbackQuery(/^excluirconta:(confirmar|cancelar)$/, async (ctx) => {
+    const chatId = ctx.chat!.id;
+    // Anyone in the group can press the button, not only the admin who asked
+    if (!(await isChatAdmin(ctx))) {
+      await ctx.answerCallbackQuery({ text: "Apenas administradores do grupo podem excluir a conta.", show_alert: true });
+      return;
+    }
+
+    pendingMessages.delete(chatId);
+    await ctx.deleteMessage().catch(() => {});
+
+    if (ctx.match[1] === "cancelar") {
+      await ctx.answerCallbackQuery({ text: "Cancelado" });
+      return;
+    }
+
+    await ctx.answerCallbackQuery({ text: "Excluindo..." });
+    forgetAwaiting(chatId);
+    await deleteAccount(chatId);
+    await ctx.reply("✅ Sua conta e todos os seus dados foram excluídos.");
+  });
+
+  // Handle /recebedor command - register the chat's own receiver identity
+  bot.command("recebedor", async (ctx) => {
+    const chatId = ctx.chat.id;
+    const [field, ...rest] = (ctx.message?.text ?? "").split(" ").slice(1);
+    const value = rest.join(" ").trim();
+    const profile = await getReceiverProfile(chatId);
+
+    if (!field) {
+      await ctx.reply(getReceiverProfileMessage(profile));
+      return;
+    }
+
+    if (!value) {
+      await ctx.reply(`Use: /recebedor ${field} <valor>`);
+      return;
+    }
+
+    const keys = profile?.pix_keys ?? [];
+    let updated;
+    switch (field.toLowerCase()) {
+      case "nome":
+        updated = await updateReceiverProfile(chatId, { legal_name: value });
+        break;
+      case "cnpj":
+        updated = await updateReceiverProfile(chatId, { cnpj: value });
+        break;
+      case "banco":
+        updated = await updateReceiverProfile(chatId, { bank: value });
+        break;
+      case "chave":
+        updated = await updateReceiverProfile(chatId, { pix_keys: [...keys.filter((k) => k !== value), value] });
+        break;
+      case "remover":
+        updated = await updateReceiverProfile(chatId, { pix_keys: keys.filter((k) => k !== value) });
+        break;
+      default:
+        await ctx.reply(getReceiverProfileMessage(profile));
+        return;
+    }
+
+    await ctx.reply(`✅ Recebedor atualizado.\n\n${getReceiverProfileMessage(updated)}`);
+  });
+
+  // Handle /horario command - the chat's timezone and business-day cutoff
+  bot.command("horario", async (ctx) => {
+    const chatId = ctx.chat.id;
+    const [field, value] = (ctx.message?.text ?? "").split(" ").slice(1).map((arg) => arg.trim());
+
+    if (!field) {
+      await ctx.reply(getDaySettingsMessage(await getDaySettings(chatId)));
+      return;
+    }
+
+    if (!value) {
+      await ctx.reply(`Use: /horario ${field} <valor>`);
+      return;
+    }
+
+    let settings;
+    switch (field.toLowerCase()) {
+      case "fuso":
+        if (!isValidTimeZone(value)) {
+          await ctx.reply("❌ Fuso horário inválido. Exemplos: America/Sao_Paulo, America/Manaus, America/Recife");
+          return;
+        }
+        settings = await updateDaySettings(chatId, { timezone: value });
+        break;
+      case "virada": {
+        const cutoff = parseCutoff(value);
+        if (cutoff === null) {
+          await ctx.reply("❌ Horário inválido. Use: /horario virada 04:00");
+          return;
+        }
+        settings = await updateDaySettings(chatId, { day_cutoff: formatCutoff(cutoff) });
+        break;
+      }
+      default:
+        await ctx.reply(getDaySettingsMessage(await getDaySettings(chatId)));
+        return;
+    }
+
+    await ctx.reply(`✅ Horário atualizado.\n\n${getDaySettingsMessage(settings)}`);
+  });
+
+  // Handle /resumos command - scheduled daily, weekly and monthly summaries
+  bot.command("resumos", async (ctx) => {
+    const chatId = ctx.chat.id;
+    const [kindArg, value] = (ctx.message?.text ?? "").split(" ").slice(1).filter(Boolean);
+    const kind = kindArg ? SCHEDULE_KIND_ARGS[kindArg.toLowerCase()] : undefined;
+
+    if (!kind) {
+      await ctx.reply(await getSchedulesMessage(chatId));
+      return;
+    }
+
+    if (value && /^(off|desligar|nao|não)$/i.test(value)) {
+      await disableSchedule(chatId, kind);
+      await ctx.reply(`✅ Resumo desligado.\n\n${await getSchedulesMessage(chatId)}`);
+      return;
+    }
+
+    const sendTime = value ? parseCutoff(value) : getDefaultSendTime(kind, await getDaySettings(chatId));
+    if (sendTime === null) {
+      await ctx.reply(`❌ Horário inválido. Use: /resumos ${kindArg} 22:00`);
+      return;
+    }
+
+    await setSchedule(chatId, kind, sendTime);
+    await ctx.reply(`✅ Resumo agendado.\n\n${await getSchedulesMessage(chatId)}`);
+  });
+
+  // Handle /meta command - daily and monthly revenue goals
+  bot.command("meta", async (ctx) => {
+    const chatId = ctx.chat.id;
+    const [kindArg, ...valueArgs] = (ctx.message?.text ?? "").split(" ").slice(1).filter(Boolean);
+    const kind = kindArg ? GOAL_KIND_ARGS[kindArg.toLowerCase()] : undefined;
+    const value = valueArgs.join(" ");
+
+    if (!kind || !value) {
+      await ctx.reply(await getGoalsMessage(chatId));
+      return;
+    }
 
-    if (action === "cancelar") {
-      await ctx.answerCallbackQuery({ text: "Cancelado" });
-      await ctx.deleteMessage();
+    if (/^(off|remover|nao|não)$/i.test(value)) {
+      await setGoal(chatId, kind, null);
+      await ctx.reply(`✅ Meta removida.\n\n${await getGoalsMessage(chatId)}`);
       return;
     }
 
-    const index = parseInt(action, 10);
-    if (isNaN(index)) {
-      console.log(`[apagar callback] invalid index: ${action}`);
-      await ctx.answerCallbackQuery({ text: "Erro" });
+    const amount = parseBRLAmount(value);
+    if (amount === null || amount <= 0) {
+      await ctx.reply(`❌ Valor inválido. Use: /meta ${kindArg} 1.000,00`);
       return;
     }
 
-    console.log(`[apagar callback] deleting index ${index}`);
-    const deleted = await deleteTransactionByIndex(chatId, index);
-    console.log(`[apagar callback] deleted:`, deleted);
+    await setGoal(chatId, kind, amount);
+    await ctx.reply(`✅ Meta definida.\n\n${await getGoalsMessage(chatId)}`);
+  });
 
-    if (deleted) {
-      const amount = deleted.amount.toLocaleString("pt-BR", { style: "currency", currency: "BRL" });
-      await ctx.answerCallbackQuery({ text: `Apagada: ${amount}` });
-      await ctx.deleteMessage();
-      const message = await getDailySummaryMessage(chatId);
-      await ctx.reply(`🗑️ Transação #${index} apagada: ${amount}\n\n${message}`);
-    } else {
-      console.log(`[apagar callback] transaction not found`);
-      await ctx.answerCallbackQuery({ text: "Transação não encontrada" });
-      await ctx.deleteMessage();
+  // Handle /abrircaixa [troco] command - start a shift; new receipts are attached to it
+  bot.command("abrircaixa", async (ctx) => {
+    const chatId = ctx.chat.id;
+    const arg = (ctx.message?.text ?? "").split(" ").slice(1).join(" ").trim();
+
+    let openingCash = 0;
+    if (arg) {
+      const amount = parseBRLAmount(arg);
+      if (amount === null) {
+        await ctx.reply("❌ Valor inválido. Use: /abrircaixa 100,00 (troco inicial)");
+        return;
+      }
+      openingCash = amount;
+    }
+
+    const shift = await openShift(chatId, getActor(ctx), openingCash);
+    if (!shift) {
+      const open = await getOpenShift(chatId);
+      await ctx.reply(`⚠️ Já existe um caixa aberto.\n\n${open ? await getOpenShiftMessage(open) : ""}`.trim());
+      return;
     }
+
+    await ctx.reply(
+      `🟢 Caixa aberto${openingCash > 0 ? ` com troco de ${formatCurrency(openingCash)}` : ""}.\n\n` +
+        "Os comprovantes a partir de agora entram neste caixa. Feche com /fecharcaixa."
+    );
   });
 
-  // Handle /editar command - correct last transaction amount
-  bot.command("editar", async (ctx) => {
+  // Handle /fecharcaixa [#caixa] [forma valor ...] command - close the shift with the counted amounts;
+  // with a shift number, close a reopened shift again
+  bot.command("fecharcaixa", async (ctx) => {
     const chatId = ctx.chat.id;
-    const args = ctx.message?.text?.split(" ").slice(1).join(" ");
+    let args = (ctx.message?.text ?? "").split(" ").slice(1).join(" ").trim();
+
+    const idMatch = args.match(/^#?(\d+)(?:\s+|$)/);
+    if (idMatch) {
+      args = args.slice(idMatch[0].length);
+      const declared = args ? parseDeclaredTotals(args) : null;
+      if (args && !declared) {
+        await ctx.reply(`❌ Não entendi os valores. Use: /fecharcaixa ${idMatch[1]} dinheiro 520,00 cartao 1.430,00`);
+        return;
+      }
 
-    if (!args) {
-      await ctx.reply("Use: /editar 150.00\n\nExemplo: /editar 1500,50");
+      const result = await recloseShift(chatId, parseInt(idMatch[1], 10), getActor(ctx), declared);
+      if (result.status === "pending") {
+        await ctx.reply(`⚠️ ${result.count} comprovante(s) deste caixa aguardando revisão. Revise antes de fechar.`);
+        return;
+      }
+      if (result.status === "no_shift") {
+        await ctx.reply(`Nenhum caixa reaberto #${idMatch[1]}. Veja os caixas com /reabrircaixa.`);
+        return;
+      }
+
+      await ctx.reply(await getClosingReportMessage(result.shift));
       return;
     }
 
-    // Parse amount (accept both . and , as decimal separator)
-    const cleanAmount = args.replace(",", ".").replace(/[^\d.]/g, "");
-    const newAmount = parseFloat(cleanAmount);
+    const shift = await getOpenShift(chatId);
+    if (!shift) {
+      await ctx.reply("Nenhum caixa aberto. Use /abrircaixa para começar um turno.");
+      return;
+    }
 
-    if (isNaN(newAmount) || newAmount <= 0) {
-      await ctx.reply("❌ Valor inválido. Use: /editar 150.00");
+    if (!args) {
+      await ctx.reply(await getOpenShiftMessage(shift));
       return;
     }
 
-    const updated = await updateLastTransactionAmount(chatId, newAmount);
+    const declared = parseDeclaredTotals(args);
+    if (!declared) {
+      await ctx.reply("❌ Não entendi os valores. Use: /fecharcaixa dinheiro 520,00 cartao 1.430,00");
+      return;
+    }
 
-    if (updated) {
-      const amountStr = newAmount.toLocaleString("pt-BR", { style: "currency", currency: "BRL" });
-      const message = await getDailySummaryMessage(chatId);
-      await ctx.reply(`✏️ Última transação editada para: ${amountStr}\n\n${message}`);
-    } else {
-      await ctx.reply("Nenhuma transação para editar hoje.");
+    const result = await closeShift(chatId, getActor(ctx), declared);
+    if (result.status === "pending") {
+      await ctx.reply(`⚠️ ${result.count} comprovante(s) deste caixa aguardando revisão. Revise antes de fechar.`);
+      return;
+    }
+    if (result.status === "no_shift") {
+      await ctx.reply("Nenhum caixa aberto. Use /abrircaixa para começar um turno.");
+      return;
     }
+
+    await ctx.reply(await getClosingReportMessage(result.shift));
   });
 
-  // Handle /limpar command - clear all today's transactions
-  bot.command("limpar", async (ctx) => {
+  // Handle /reabrircaixa [#caixa] command - unlock a closed shift for corrections (chat admins only)
+  bot.command("reabrircaixa", async (ctx) => {
     const chatId = ctx.chat.id;
-    const count = await clearTodayTransactions(chatId);
+    const arg = (ctx.message?.text ?? "").split(" ").slice(1).join(" ").trim();
 
-    if (count > 0) {
-      await ctx.reply(`🧹 ${count} transação(ões) apagada(s). Total zerado.`);
-    } else {
-      await ctx.reply("Nenhuma transação para limpar hoje.");
+    if (!(await isChatAdmin(ctx))) {
+      await ctx.reply("⛔ Apenas administradores do grupo podem reabrir o caixa.");
+      return;
+    }
+
+    const idMatch = arg.match(/^#?(\d+)$/);
+    if (!idMatch) {
+      await ctx.reply(await getReopenableShiftsMessage(chatId));
+      return;
+    }
+
+    const shift = await reopenShift(chatId, parseInt(idMatch[1], 10), getActor(ctx));
+    if (!shift) {
+      await ctx.reply(`Nenhum caixa fechado #${idMatch[1]}.\n\n${await getReopenableShiftsMessage(chatId)}`);
+      return;
     }
+
+    await ctx.reply(
+      `🔓 Caixa #${shift.id} reaberto. As transações dele podem ser corrigidas; os novos comprovantes continuam ` +
+        "entrando no caixa aberto.\n\n" +
+        `Feche de novo com /fecharcaixa ${shift.id}.`
+    );
   });
 
   // Handle /plano command - show current plan and usage
@@ -366,18 +1515,20 @@ export async function createBot(token: string): Promise<Bot> {
       planCounts[s.plan] = (planCounts[s.plan] || 0) + 1;
     });
 
-    // Get today's transactions
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
+    // Get today's transactions (bot-wide day, in the default timezone)
+    const today = getBusinessDay(DEFAULT_DAY_SETTINGS);
     const { count: todayTx } = await supabase
       .from("transactions")
       .select("*", { count: "exact", head: true })
-      .gte("created_at", today.toISOString());
+      .is("deleted_at", null)
+      .gte("created_at", today.start.toISOString())
+      .lt("created_at", today.end.toISOString());
 
     // Get total transactions
     const { count: totalTx } = await supabase
       .from("transactions")
-      .select("*", { count: "exact", head: true });
+      .select("*", { count: "exact", head: true })
+      .is("deleted_at", null);
 
     await ctx.reply(
       `📊 *Estatísticas*\n\n` +
@@ -393,56 +1544,116 @@ export async function createBot(token: string): Promise<Bot> {
     );
   });
 
-  // Admin command: /exportar - export today's transactions as CSV
-  bot.command("exportar", async (ctx) => {
+  // Admin command: /custos [dias] - extraction cost per chat and per plan
+  bot.command("custos", async (ctx) => {
     const chatId = ctx.chat.id;
 
-    // Get today's transactions for this user (or all if admin)
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
+    // Only admin can use this command
+    if (ADMIN_CHAT_ID && chatId !== ADMIN_CHAT_ID) {
+      return;
+    }
+
+    // Default to the current month; "/custos 7" covers the last 7 days
+    const days = parseInt(ctx.message?.text?.split(" ")[1] ?? "", 10);
+    const since = new Date();
+    if (!isNaN(days) && days > 0) {
+      since.setDate(since.getDate() - days);
+    } else {
+      since.setDate(1);
+    }
 
-    let query = supabase
-      .from("transactions")
-      .select("*")
-      .gte("created_at", today.toISOString())
-      .order("created_at", { ascending: true });
+    const message = await getCostReportMessage(getBusinessDay(DEFAULT_DAY_SETTINGS, since).start);
+    await ctx.reply(message, { parse_mode: "Markdown" });
+  });
 
-    // If not admin, only show user's own transactions
-    if (!ADMIN_CHAT_ID || chatId !== ADMIN_CHAT_ID) {
-      query = query.eq("chat_id", chatId);
+  // Handle /exportar command - a period as CSV, XLSX, OFX or PDF; "zip" adds the receipt files.
+  // The admin can export another chat or every chat
+  bot.command("exportar", async (ctx) => {
+    const chatId = ctx.chat.id;
+    const isAdmin = ADMIN_CHAT_ID !== null && chatId === ADMIN_CHAT_ID;
+    const args = (ctx.message?.text ?? "").split(" ").slice(1).filter(Boolean);
+
+    let format: ExportFormat = "csv";
+    let withReceipts = false;
+    // Admin only: another chat's id, or "todos" for every chat
+    let target: number | null = chatId;
+    const periodArgs: string[] = [];
+
+    for (const arg of args) {
+      const lower = arg.toLowerCase();
+      if (EXPORT_FORMAT_ARGS[lower]) format = EXPORT_FORMAT_ARGS[lower];
+      else if (lower === "zip") withReceipts = true;
+      else if (isAdmin && lower === "todos") target = null;
+      else if (isAdmin && /^-?\d+$/.test(arg)) target = parseInt(arg, 10);
+      else periodArgs.push(arg);
+    }
+
+    const settings = await getDaySettings(target ?? chatId);
+    const period = parsePeriodArgs(settings, periodArgs.length > 0 ? periodArgs : ["hoje"]);
+
+    if (!period) {
+      await ctx.reply(
+        "Use: /exportar [período] [formato]\n\n" +
+          "Períodos: hoje, ontem, semana, mes, 15/10, 09/2026 ou 01/10 15/10\n" +
+          "Formatos: csv, xlsx, ofx ou pdf\n" +
+          "Acrescente zip para receber também os comprovantes.\n\n" +
+          "Exemplo: /exportar mes xlsx" +
+          (isAdmin ? "\n\nAdmin: /exportar mes csv <chat_id> ou /exportar mes csv todos" : "")
+      );
+      return;
     }
 
-    const { data: transactions, error } = await query;
+    const transactions = await getExportTransactions(target, period);
 
-    if (error || !transactions || transactions.length === 0) {
-      await ctx.reply("Nenhuma transação para exportar hoje.");
+    if (transactions.length === 0) {
+      await ctx.reply(`Nenhuma transação para exportar em ${period.label}.`);
       return;
     }
 
-    // Create CSV
-    const headers = "Data,Valor,Banco,Cliente\n";
-    const rows = transactions.map((t) => {
-      const date = new Date(t.created_at).toLocaleString("pt-BR");
-      const amount = t.amount.toFixed(2).replace(".", ",");
-      const bank = t.bank || "";
-      const client = t.client_name || "";
-      return `"${date}","R$${amount}","${bank}","${client}"`;
-    }).join("\n");
+    await ctx.replyWithChatAction("upload_document");
 
-    const csv = headers + rows;
-    const buffer = Buffer.from(csv, "utf-8");
+    const profile = target !== null ? await getReceiverProfile(target) : null;
+    const ownName = target === chatId ? ctx.chat.title || ctx.from?.first_name : null;
+    const shopName = target === null ? "Todas as contas" : profile?.legal_name || ownName || `Chat ${target}`;
 
-    await ctx.replyWithDocument(
-      new InputFile(buffer, `transacoes_${today.toISOString().split("T")[0]}.csv`),
-      { caption: `📊 ${transactions.length} transações exportadas` }
+    const file = await buildExport(
+      format,
+      transactions,
+      { period, shopName, shopDocument: profile?.cnpj ?? null, allChats: target === null },
+      String(target ?? 0)
     );
+
+    await ctx.replyWithDocument(new InputFile(file.data, file.filename), {
+      caption: `📊 ${transactions.length} transações exportadas - ${period.label}`,
+    });
+
+    if (withReceipts) {
+      const archive = await buildReceiptsZip(transactions, settings.timeZone);
+      if (!archive) {
+        await ctx.reply("Nenhum comprovante arquivado para exportar.");
+        return;
+      }
+      const zipName = file.filename.replace(/^transacoes/, "comprovantes").replace(/\.\w+$/, ".zip");
+      await ctx.replyWithDocument(new InputFile(archive.zip, zipName), {
+        caption: `🗂️ ${archive.count} comprovante(s)`,
+      });
+    }
   });
 
   // Handle photo messages
   bot.on("message:photo", async (ctx) => {
     // Clear any pending interactive message (like /apagar buttons)
     await clearPendingMessage(bot, ctx.chat.id);
-    await processImage(ctx);
+
+    const photos = ctx.message.photo;
+    // Get the largest photo
+    const file = { fileId: photos[photos.length - 1].file_id, mimeType: null, messageId: ctx.message.message_id };
+
+    if (ctx.message.media_group_id) {
+      await queueReceiptJob(ctx, "album", { files: [file], mediaGroupId: ctx.message.media_group_id });
+    } else {
+      await queueReceiptJob(ctx, "receipt", { files: [file] });
+    }
   });
 
   // Handle document messages (PDFs and images sent as files)
@@ -456,160 +1667,785 @@ export async function createBot(token: string): Promise<Bot> {
     ) {
       // Clear any pending interactive message (like /apagar buttons)
       await clearPendingMessage(bot, ctx.chat.id);
-      await processDocument(ctx, mimeType);
+
+      const file = { fileId: doc.file_id, mimeType, messageId: ctx.message.message_id };
+
+      if (ctx.message.media_group_id) {
+        await queueReceiptJob(ctx, "album", { files: [file], mediaGroupId: ctx.message.media_group_id });
+      } else {
+        await queueReceiptJob(ctx, "receipt", { files: [file] });
+      }
     } else {
-      await ctx.reply("⚠️ Envie apenas imagens ou PDFs de comprovantes PIX.");
+      await ctx.reply("⚠️ Envie apenas imagens ou PDFs de comprovantes.");
+    }
+  });
+
+  // Handle typed amounts for low-confidence receipts under review
+  bot.on("message:text", async (ctx, next) => {
+    const chatId = ctx.chat.id;
+    const key = getAwaitingKey(chatId, ctx.from.id);
+    const awaiting = awaitingAmounts.get(key);
+    if (!awaiting || ctx.message.text.startsWith("/") || !isAnswerTo(ctx, awaiting.promptMessageId)) {
+      await next();
+      return;
+    }
+
+    // One answer per prompt: an invalid one ends the wait instead of catching every later message
+    awaitingAmounts.delete(key);
+    const amount = parseBRLAmount(ctx.message.text);
+    if (amount === null) {
+      await ctx.reply("❌ Valor inválido. Toque em \"Digitar valor\" de novo e responda só com o valor, ex: 1500,50");
+      return;
+    }
+
+    const confirmed = await confirmTransaction(chatId, awaiting.transactionId, getActor(ctx), amount);
+
+    if (!confirmed) {
+      await ctx.reply("Este comprovante já foi revisado.");
+      return;
+    }
+
+    const message = await getRunningTotalMessage(
+      chatId,
+      confirmed.amount,
+      confirmed.bank_detected,
+      confirmed.client_name
+    );
+    await ctx.reply(message);
+  });
+
+  // Handle typed values for the /editar menu
+  bot.on("message:text", async (ctx, next) => {
+    const chatId = ctx.chat.id;
+    const key = getAwaitingKey(chatId, ctx.from.id);
+    const awaiting = awaitingEdits.get(key);
+    if (!awaiting || ctx.message.text.startsWith("/") || !isAnswerTo(ctx, awaiting.promptMessageId)) {
+      await next();
+      return;
+    }
+
+    // One answer per prompt, valid or not
+    awaitingEdits.delete(key);
+    const retry = `Use /editar ${awaiting.position} para tentar de novo.`;
+    const value = ctx.message.text.trim();
+    const text = value === "-" ? null : value;
+    let changes: Partial<Transaction>;
+
+    switch (awaiting.field) {
+      case "valor": {
+        const amount = parseBRLAmount(value);
+        if (amount === null || amount <= 0) {
+          await ctx.reply(`❌ Valor inválido. ${retry}`);
+          return;
+        }
+        changes = { amount };
+        break;
+      }
+      case "cliente":
+        changes = { client_name: text?.slice(0, 100) ?? null };
+        break;
+      case "banco":
+        // The list shows the payer's bank when the receipt had one, so both follow the edit
+        changes = { bank_detected: text?.slice(0, 100) ?? null, payer_bank: text?.slice(0, 100) ?? null };
+        break;
+      case "nota":
+        changes = { note: text?.slice(0, 500) ?? null };
+        break;
+      case "dia": {
+        const settings = await getDaySettings(chatId);
+        const today = getBusinessDay(settings);
+        const date = parseDateArg(value, today);
+        if (!date || date > today.date) {
+          await ctx.reply(`❌ Dia inválido. Use dd/mm ou dd/mm/aaaa, até hoje (ex: 15/10). ${retry}`);
+          return;
+        }
+        const transaction = await getTransactionById(chatId, awaiting.transactionId);
+        if (!transaction) {
+          await ctx.reply("Transação não encontrada.");
+          return;
+        }
+        changes = { created_at: moveToBusinessDay(settings, new Date(transaction.created_at!), date).toISOString() };
+        break;
+      }
     }
+
+    await applyEdit(ctx, awaiting.transactionId, awaiting.position, changes);
+  });
+
+  // Handle forwarded or pasted bank notifications ("Pix recebido: R$ 85,00 de MARIA S").
+  // In groups only forwarded messages count, so talk like "te mando um pix de R$ 50" is left alone.
+  bot.on("message:text", async (ctx) => {
+    const text = ctx.message.text;
+    if (text.startsWith("/") || !looksLikePaymentNotification(text)) return;
+
+    const origin = ctx.message.forward_origin;
+    if (!origin && ctx.chat.type !== "private") return;
+
+    const forwardedAt = origin ? new Date(origin.date * 1000).toISOString() : null;
+    await queueReceiptJob(ctx, "notification", { text, forwardedAt });
   });
 
   return bot;
 }
 
-async function processImage(ctx: Context): Promise<void> {
-  const photos = ctx.message?.photo;
-  if (!photos || photos.length === 0) return;
+/** Whether the user may run the chat's admin commands: always in a private chat, creators and admins in a group */
+async function isChatAdmin(ctx: Context): Promise<boolean> {
+  if (ctx.chat?.type === "private") return true;
+  if (!ctx.from) return false;
+
+  const member = await ctx.getChatMember(ctx.from.id);
+  return member.status === "creator" || member.status === "administrator";
+}
+
+/** The Telegram user behind an update, for the audit log */
+function getActor(ctx: Context): Actor {
+  const user = ctx.from;
+  if (!user) return { userId: null, name: null };
+
+  const name = [user.first_name, user.last_name].filter(Boolean).join(" ") || user.username || null;
+  return { userId: user.id, name };
+}
+
+/** The fields /editar can change, one per line */
+async function formatEditableFields(chatId: number, transaction: Transaction): Promise<string> {
+  const { timeZone } = await getDaySettings(chatId);
+  const createdAt = new Date(transaction.created_at!);
+  const day = createdAt.toLocaleDateString("pt-BR", { timeZone });
+
+  return (
+    `Valor: ${formatCurrency(transaction.amount)}\n` +
+    `Cliente: ${transaction.client_name || "-"}\n` +
+    `Banco: ${transaction.payer_bank || transaction.bank_detected || "-"}\n` +
+    `Forma: ${formatPaymentMethod(transaction)}\n` +
+    `Nota: ${transaction.note || "-"}\n` +
+    `Dia: ${day} ${formatTimeInZone(createdAt, timeZone)}`
+  );
+}
+
+function getEditorKeyboard(transactionId: number, position: number): InlineKeyboard {
+  const data = (action: string) => `editar:${transactionId}:${position}:${action}`;
+  return new InlineKeyboard()
+    .text("💰 Valor", data("valor"))
+    .text("👤 Cliente", data("cliente"))
+    .text("🏦 Banco", data("banco"))
+    .row()
+    .text("💳 Forma", data("forma"))
+    .text("📝 Nota", data("nota"))
+    .text("📅 Dia", data("dia"))
+    .row()
+    .text("❌ Cancelar", data("cancelar"));
+}
 
+/** Save an /editar change and show the updated total */
+async function applyEdit(
+  ctx: Context,
+  transactionId: number,
+  position: number,
+  changes: Partial<Transaction>
+): Promise<void> {
   const chatId = ctx.chat!.id;
+  const transaction = await getTransactionById(chatId, transactionId);
 
-  // Check subscription limit
-  const check = await canProcess(chatId);
-  if (!check.allowed) {
-    const renewMsg = check.expired
-      ? `\n\n💳 Use /assinar para renovar`
-      : `\n\nUse /assinar para fazer upgrade`;
-    await ctx.reply(
-      `⚠️ ${check.message}\n\n` +
-      `📊 Seu plano: ${PLANS[check.plan].displayName}` +
-      renewMsg
-    );
+  if (!transaction) {
+    await ctx.reply("Transação não encontrada.");
     return;
   }
 
-  // Warn about grace period
-  if (check.inGracePeriod && check.message) {
-    await ctx.reply(check.message + `\n\n💳 Use /assinar ${check.plan} para renovar`);
+  const updated = await updateTransaction(chatId, transaction, changes, getActor(ctx));
+  const fields = await formatEditableFields(chatId, updated);
+  const summary = await getDailySummaryMessage(chatId);
+  await ctx.reply(`✏️ Transação #${position} atualizada.\n\n${fields}\n\n${summary}`);
+}
+
+/** A button per result to open it, and previous/next page buttons */
+function getSearchKeyboard(key: string, results: SearchResultPage): InlineKeyboard | undefined {
+  if (results.transactions.length === 0) return undefined;
+
+  const keyboard = new InlineKeyboard();
+  const offset = results.page * SEARCH_RESULTS_PER_PAGE;
+  results.transactions.forEach((t, i) => {
+    keyboard.text(String(offset + i + 1), `transacao:${t.id}`);
+    if (i % 5 === 4) keyboard.row();
+  });
+
+  if (results.pageCount > 1) {
+    keyboard.row();
+    if (results.page > 0) keyboard.text("⬅️ Anterior", `busca:${key}:${results.page - 1}`);
+    if (results.page < results.pageCount - 1) keyboard.text("Próxima ➡️", `busca:${key}:${results.page + 1}`);
+  }
+  return keyboard;
+}
+
+/**
+ * Send a transaction's receipt back as it was received: the archived file when there is one,
+ * otherwise Telegram's copy. False when neither is available.
+ */
+async function sendOriginalReceipt(api: Api, chatId: number, transaction: Transaction): Promise<boolean> {
+  const archived = await getArchivedReceipt(transaction).catch(() => null);
+  if (archived) {
+    await api.sendDocument(chatId, new InputFile(archived.data, archived.filename));
+    return true;
+  }
+
+  if (!transaction.telegram_file_id) return false;
+
+  // Photos and documents can't be resent through each other's method
+  try {
+    await api.sendDocument(chatId, transaction.telegram_file_id);
+  } catch {
+    try {
+      await api.sendPhoto(chatId, transaction.telegram_file_id);
+    } catch (error) {
+      console.error(`Failed to resend receipt of transaction ${transaction.id}:`, error);
+      return false;
+    }
   }
+  return true;
+}
 
-  // Get the largest photo
-  const photo = photos[photos.length - 1];
-  const fileId = photo.file_id;
+/** One client's history, or buttons to pick one when the name matched several */
+async function replyWithClients(ctx: Context, clients: Client[], query: string): Promise<void> {
+  const chatId = ctx.chat!.id;
 
-  // Check for duplicate
-  if (await isDuplicate(chatId, fileId)) {
-    await ctx.reply("⚠️ Este comprovante já foi registrado.");
+  if (clients.length === 0) {
+    await ctx.reply(`Nenhum cliente encontrado para "${query}".`);
     return;
   }
 
-  await ctx.reply("🔍 Processando comprovante...");
+  if (clients.length === 1) {
+    await ctx.reply(await getClientMessage(chatId, clients[0]));
+    return;
+  }
 
-  try {
-    // Download the file
-    const file = await ctx.api.getFile(fileId);
-    const filePath = file.file_path!;
-    const fileUrl = `https://api.telegram.org/file/bot${process.env.TELEGRAM_BOT_TOKEN}/${filePath}`;
+  const keyboard = new InlineKeyboard();
+  clients.slice(0, 10).forEach((client) => keyboard.text(client.name, `cliente:${client.id}`).row());
+  await ctx.reply(`🔎 ${clients.length} clientes encontrados para "${query}". Escolha um:`, { reply_markup: keyboard });
+}
 
-    const response = await fetch(fileUrl);
-    const buffer = await response.arrayBuffer();
-    const base64 = Buffer.from(buffer).toString("base64");
+/** Previous/next buttons for a paginated transaction list; none when it fits in one page */
+function getListKeyboard(period: Period, list: TransactionListPage): InlineKeyboard | undefined {
+  if (list.pageCount <= 1) return undefined;
 
-    // Determine media type
-    const mediaType = filePath.endsWith(".png") ? "image/png" : "image/jpeg";
+  const compact = (date: string) => date.replace(/-/g, "");
+  const data = (page: number) => `lista:${compact(period.from)}:${compact(period.to)}:${page}`;
+  const keyboard = new InlineKeyboard();
+  if (list.page > 0) keyboard.text("◀️ Anterior", data(list.page - 1));
+  if (list.page < list.pageCount - 1) keyboard.text("Próxima ▶️", data(list.page + 1));
+  return keyboard;
+}
 
-    // Extract amount using Claude Vision
-    const result = await extractPixAmount(base64, mediaType);
+/** Period summary followed by the first page of its transaction list */
+async function replyWithPeriodReport(ctx: Context, period: Period): Promise<void> {
+  const chatId = ctx.chat!.id;
+  const summary = await getPeriodSummaryMessage(chatId, period);
+  await ctx.reply(summary);
 
-    if (result.amount === null) {
-      await ctx.reply(
-        `❌ Não consegui identificar o valor.\n${result.error || "Tente enviar uma imagem mais clara."}`
-      );
-      return;
-    }
+  const list = await getTransactionListMessage(chatId, period);
+  await ctx.reply(list.text, { reply_markup: getListKeyboard(period, list) });
+}
 
-    // Save transaction
-    await saveTransaction(chatId, result.amount, result.bank, result.clientName, fileId, result.rawResponse);
+// Albums arrive as one update per item; each is queued right away, and the first one waits a
+// moment for the rest to arrive before a worker gathers them (see jobs.ts)
+const ALBUM_COLLECT_DELAY = 1500; // 1.5 seconds
 
-    // Increment usage for paid plans
-    await incrementUsage(chatId);
+/** Store a job for the worker pool and let the user know it is on its way */
+async function queueReceiptJob(ctx: Context, kind: JobKind, payload: JobPayload): Promise<void> {
+  const chatId = ctx.chat!.id;
+  const job = await enqueueJob(chatId, kind, payload, kind === "album" ? ALBUM_COLLECT_DELAY : 0);
 
-    // Send running total
-    const message = await getRunningTotalMessage(chatId, result.amount, result.bank, result.clientName);
-    await ctx.reply(message);
-  } catch (error) {
-    console.error("Error processing image:", error);
-    await ctx.reply("❌ Erro ao processar o comprovante. Tente novamente.");
+  const pending = await getPendingJobs(chatId);
+  // One reply per album, for the item queued first
+  if (payload.mediaGroupId) {
+    const first = pending.find((other) => other.payload.mediaGroupId === payload.mediaGroupId);
+    if (first && first.id !== job.id) return;
+  }
+
+  const queuedCount = new Set(pending.map((other) => other.payload.mediaGroupId ?? other.id)).size;
+  const queued = queuedCount > 1 ? ` (${queuedCount} na fila, veja /fila)` : "";
+  const label =
+    kind === "album"
+      ? "🔍 Processando comprovantes..."
+      : kind === "notification"
+        ? "🔍 Processando notificação..."
+        : "🔍 Processando comprovante...";
+  await ctx.reply(label + queued);
+}
+
+/** Worker entry point: run one queued job */
+async function processJob(api: Api, job: ReceiptJob): Promise<void> {
+  switch (job.kind) {
+    case "receipt":
+      return processReceipt(api, job.chat_id, job.payload.files![0], job.attempts, job.created_at);
+    case "album":
+      return processAlbum(api, job.chat_id, job.payload.files!, job.attempts, job.created_at);
+    case "notification":
+      return processNotification(
+        api,
+        job.chat_id,
+        job.payload.text!,
+        job.payload.forwardedAt ?? null,
+        job.attempts,
+        job.created_at
+      );
   }
 }
 
-async function processDocument(ctx: Context, mimeType: string): Promise<void> {
-  const doc = ctx.message?.document;
-  if (!doc) return;
+/** Tell the user a job gave up after all its retries */
+async function reportFailedJob(api: Api, job: ReceiptJob): Promise<void> {
+  const what =
+    job.kind === "album" ? "os comprovantes" : job.kind === "notification" ? "a notificação" : "o comprovante";
+  await api.sendMessage(job.chat_id, `❌ Erro ao processar ${what} após ${job.attempts} tentativas. Envie novamente.`);
+}
+
+/** Map the extracted receipt fields to their transaction columns */
+function getReceiptDetails(receipt: ExtractedReceipt): ReceiptDetails {
+  return {
+    payment_method: receipt.paymentMethod,
+    card_brand: receipt.cardBrand,
+    installments: receipt.installments,
+    e2e_id: receipt.e2eId,
+    paid_at: receipt.paidAt,
+    receiver_name: receipt.receiverName,
+    receiver_institution: receipt.receiverInstitution,
+    payer_document: receipt.payerDocument,
+    payer_bank: receipt.payerBank,
+    confidence: receipt.confidence,
+    confidence_reasons: receipt.confidenceReasons,
+  };
+}
 
-  const chatId = ctx.chat!.id;
-  const fileId = doc.file_id;
+/** Why a chat can't process more receipts, and how to get more */
+function getLimitReachedMessage(check: CanProcessResult): string {
+  const renewMsg = check.expired
+    ? `\n\n💳 Use /assinar para renovar`
+    : `\n\nUse /assinar para fazer upgrade`;
+  return `⚠️ ${check.message}\n\n` + `📊 Seu plano: ${PLANS[check.plan].displayName}` + renewMsg;
+}
 
-  // Check subscription limit
+/**
+ * Check the subscription limit, replying with the reason when the chat cannot process more receipts.
+ * The grace period warning is only sent on a job's first attempt, not again on every retry.
+ */
+async function checkLimits(api: Api, chatId: number, attempt: number): Promise<boolean> {
   const check = await canProcess(chatId);
   if (!check.allowed) {
-    const renewMsg = check.expired
-      ? `\n\n💳 Use /assinar para renovar`
-      : `\n\nUse /assinar para fazer upgrade`;
-    await ctx.reply(
-      `⚠️ ${check.message}\n\n` +
-      `📊 Seu plano: ${PLANS[check.plan].displayName}` +
-      renewMsg
-    );
-    return;
+    await api.sendMessage(chatId, getLimitReachedMessage(check));
+    return false;
   }
 
   // Warn about grace period
-  if (check.inGracePeriod && check.message) {
-    await ctx.reply(check.message + `\n\n💳 Use /assinar ${check.plan} para renovar`);
+  if (check.inGracePeriod && check.message && attempt <= 1) {
+    await api.sendMessage(chatId, check.message + `\n\n💳 Use /assinar ${check.plan} para renovar`);
+  }
+
+  return true;
+}
+
+/** Download a receipt file from Telegram and run it through extraction */
+async function downloadAndExtract(
+  api: Api,
+  chatId: number,
+  file: ReceiptFile
+): Promise<{ result: ExtractionResult; buffer: Buffer; mediaType: MediaType }> {
+  const telegramFile = await api.getFile(file.fileId);
+  const filePath = telegramFile.file_path!;
+  const fileUrl = `https://api.telegram.org/file/bot${process.env.TELEGRAM_BOT_TOKEN}/${filePath}`;
+
+  const response = await fetch(fileUrl);
+  if (!response.ok) throw new Error(`File download failed: ${response.status}`);
+  const buffer = Buffer.from(await response.arrayBuffer());
+  const base64 = buffer.toString("base64");
+
+  // Photos carry no mime type, so infer it from the file path
+  const mediaType = (file.mimeType ?? (filePath.endsWith(".png") ? "image/png" : "image/jpeg")) as MediaType;
+
+  const result = await extractPixData(base64, mediaType);
+  await recordExtractionCalls(chatId, file.fileId, result.calls);
+  throwIfUnavailable(result);
+
+  return { result, buffer, mediaType };
+}
+
+/** Perceptual hash of a receipt image; it only identifies a receipt when the image holds exactly one */
+async function getReceiptImageHash(
+  result: ExtractionResult,
+  buffer: Buffer,
+  mediaType: MediaType
+): Promise<string | null> {
+  return mediaType === "application/pdf" || result.receipts.length !== 1 ? null : computeImageHash(buffer);
+}
+
+/** Where the receipts being saved came from, and the hashes that identify that input */
+interface ReceiptOrigin {
+  fileId: string | null;
+  source: TransactionSource;
+  imageHash: string | null;
+  contentHash: string | null;
+  receiptPath: string | null; // archived copy of the file
+  retrySince: string | null; // on a retry, when the job was queued: receipts saved since then by an earlier attempt
+}
+
+/** The extraction engines could not be reached; the job is retried later */
+class ExtractionUnavailableError extends Error {
+  constructor() {
+    super("Extraction API unavailable");
+    this.name = "ExtractionUnavailableError";
+  }
+}
+
+/** An outage is worth retrying later, unlike a receipt that simply has no readable amount */
+function throwIfUnavailable(result: ExtractionResult): void {
+  if (result.receipts.length === 0 && result.apiFailed) {
+    throw new ExtractionUnavailableError();
+  }
+}
+
+/**
+ * Save every receipt found in one file or notification. Suspected duplicates are held back and
+ * the user is asked about each of them, and receipts past the plan limit are skipped;
+ * returns the receipts actually saved.
+ */
+async function saveExtractedReceipts(
+  api: Api,
+  chatId: number,
+  result: ExtractionResult,
+  origin: ReceiptOrigin
+): Promise<{ saved: ExtractedReceipt[]; duplicates: number; pending: number; limited: number }> {
+  const { fileId, imageHash, receiptPath } = origin;
+  // Like the image hash, the content hash only identifies a receipt when the input holds exactly one
+  const contentHash = result.receipts.length === 1 ? origin.contentHash : null;
+  const profile = await getReceiverProfile(chatId);
+
+  const saved: ExtractedReceipt[] = [];
+  let duplicates = 0;
+  let pending = 0;
+  let limited = 0;
+
+  for (const [index, receipt] of result.receipts.entries()) {
+    // An earlier attempt failed after saving part of this input; don't save or count those again
+    const earlier =
+      origin.retrySince && origin.contentHash
+        ? await findSavedReceipt(chatId, origin.contentHash, index, origin.retrySince)
+        : null;
+    if (earlier) {
+      if (earlier.status === "pending") {
+        pending++;
+      } else {
+        saved.push(receipt);
+      }
+      continue;
+    }
+
+    // One file can hold many receipts, and each one counts against the plan
+    if (!(await canProcess(chatId)).allowed) {
+      limited++;
+      continue;
+    }
+
+    const receiverCheck = validateReceiver(profile, receipt);
+    const details: ReceiptDetails = {
+      ...getReceiptDetails(receipt),
+      receipt_fingerprint: computeFingerprint(receipt.clientName, receipt.amount!, receipt.paidAt),
+      image_hash: imageHash,
+      content_hash: origin.contentHash,
+      receipt_index: index,
+      receipt_path: receiptPath,
+      receiver_check: receiverCheck,
+      extraction_engine: result.engine,
+      source: origin.source,
+      // Low-confidence reads and receipts paid to someone else only count once the user confirms them
+      status:
+        receipt.confidence === "low" || isReceiverCheckBlocking(receiverCheck) ? "pending" : "confirmed",
+    };
+
+    // Check for duplicate (same receipt content sent as a different file)
+    const duplicate = await findDuplicate(chatId, {
+      e2eId: receipt.e2eId,
+      fingerprint: details.receipt_fingerprint ?? null,
+      imageHash,
+      contentHash,
+      amount: receipt.amount!,
+      clientName: receipt.clientName,
+    });
+
+    if (duplicate) {
+      const pending = { chatId, fileId, receipt, rawResponse: result.rawResponse, details, createdAt: Date.now() };
+      await askAboutDuplicate(api, pending, duplicate);
+      duplicates++;
+      continue;
+    }
+
+    const transaction = await saveReceipt(chatId, fileId, receipt, result.rawResponse, details);
+
+    if (transaction.status === "pending") {
+      await askForReview(api, transaction, receipt);
+      pending++;
+      continue;
+    }
+
+    saved.push(receipt);
   }
 
-  // Check for duplicate
-  if (await isDuplicate(chatId, fileId)) {
-    await ctx.reply("⚠️ Este comprovante já foi registrado.");
+  return { saved, duplicates, pending, limited };
+}
+
+/** Single photo or document: limits, download, extraction, duplicate check and save */
+async function processReceipt(
+  api: Api,
+  chatId: number,
+  file: ReceiptFile,
+  attempt: number,
+  queuedAt: string
+): Promise<void> {
+  if (!(await checkLimits(api, chatId, attempt))) return;
+
+  // Check for duplicate (same Telegram file); on a retry the file may be half saved by the earlier attempt
+  const retrySince = attempt > 1 ? queuedAt : null;
+  if (await isDuplicate(chatId, file.fileId, retrySince ?? undefined)) {
+    await api.sendMessage(chatId, "⚠️ Este comprovante já foi registrado.");
     return;
   }
 
-  await ctx.reply("🔍 Processando comprovante...");
+  const { result, buffer, mediaType } = await downloadAndExtract(api, chatId, file);
 
-  try {
-    // Download the file
-    const file = await ctx.api.getFile(fileId);
-    const filePath = file.file_path!;
-    const fileUrl = `https://api.telegram.org/file/bot${process.env.TELEGRAM_BOT_TOKEN}/${filePath}`;
-
-    const response = await fetch(fileUrl);
-    const buffer = await response.arrayBuffer();
-    const base64 = Buffer.from(buffer).toString("base64");
-
-    let result;
-    if (mimeType === "application/pdf") {
-      result = await extractFromPdf(base64);
-    } else {
-      const mediaType = mimeType as "image/jpeg" | "image/png" | "image/webp" | "image/gif";
-      result = await extractPixAmount(base64, mediaType);
+  if (result.receipts.length === 0) {
+    const hint = file.mimeType ? "Tente enviar um arquivo mais claro." : "Tente enviar uma imagem mais clara.";
+    await api.sendMessage(chatId, `❌ Não consegui identificar o valor.\n${result.error || hint}`);
+    return;
+  }
+
+  const archived = await archiveReceipt(chatId, buffer, mediaType);
+  const { saved, limited } = await saveExtractedReceipts(api, chatId, result, {
+    fileId: file.fileId,
+    source: "receipt",
+    imageHash: await getReceiptImageHash(result, buffer, mediaType),
+    contentHash: archived?.hash ?? computeFileHash(buffer),
+    receiptPath: archived?.path ?? null,
+    retrySince,
+  });
+  await replyWithSaved(api, chatId, saved, limited);
+}
+
+/** Forwarded or pasted bank notification: limits, extraction, duplicate check and save */
+async function processNotification(
+  api: Api,
+  chatId: number,
+  text: string,
+  forwardedAt: string | null,
+  attempt: number,
+  queuedAt: string
+): Promise<void> {
+  if (!(await checkLimits(api, chatId, attempt))) return;
+
+  const result = await extractNotificationData(text);
+  await recordExtractionCalls(chatId, null, result.calls);
+  throwIfUnavailable(result);
+
+  // Not a received payment after all: stay out of the conversation
+  if (result.receipts.length === 0) return;
+
+  // Notifications rarely print the time; a forwarded one carries the original message date instead
+  const receipts = result.receipts.map((r) => ({ ...r, paidAt: r.paidAt ?? forwardedAt }));
+
+  const { saved, limited } = await saveExtractedReceipts(api, chatId, { ...result, receipts }, {
+    fileId: null,
+    source: "notification",
+    imageHash: null,
+    contentHash: computeContentHash(text),
+    receiptPath: null,
+    retrySince: attempt > 1 ? queuedAt : null,
+  });
+  await replyWithSaved(api, chatId, saved, limited);
+}
+
+/** Running total after one saved receipt, or the batch summary after several or when some were skipped */
+async function replyWithSaved(api: Api, chatId: number, saved: ExtractedReceipt[], limited: number): Promise<void> {
+  if (limited > 0) {
+    const message = await getBatchTotalMessage(chatId, saved, [getLimitedIssue(limited)]);
+    await api.sendMessage(chatId, message);
+  } else if (saved.length === 1) {
+    const [receipt] = saved;
+    const message = await getRunningTotalMessage(chatId, receipt.amount!, receipt.bank, receipt.clientName);
+    await api.sendMessage(chatId, message);
+  } else if (saved.length > 1) {
+    const message = await getBatchTotalMessage(chatId, saved, []);
+    await api.sendMessage(chatId, message);
+  }
+}
+
+function getLimitedIssue(limited: number): string {
+  return `${limited} comprovante(s) não registrado(s): limite do plano atingido`;
+}
+
+/** Album: process every item as one batch job and send a single consolidated reply */
+async function processAlbum(
+  api: Api,
+  chatId: number,
+  files: ReceiptFile[],
+  attempt: number,
+  queuedAt: string
+): Promise<void> {
+  if (!(await checkLimits(api, chatId, attempt))) return;
+
+  // Updates may arrive out of order; keep the order the user sent them in
+  const ordered = [...files].sort((a, b) => a.messageId - b.messageId);
+  const retrySince = attempt > 1 ? queuedAt : null;
+
+  const saved: ExtractedReceipt[] = [];
+  const issues: string[] = [];
+  let duplicates = 0;
+  let pending = 0;
+  let limited = 0;
+  let unavailable: ExtractionUnavailableError | null = null;
+
+  for (const [i, file] of ordered.entries()) {
+    const label = `Arquivo ${i + 1}`;
+
+    if (!(await canProcess(chatId)).allowed) {
+      issues.push(`${label}: limite do plano atingido`);
+      continue;
     }
 
-    if (result.amount === null) {
-      await ctx.reply(
-        `❌ Não consegui identificar o valor.\n${result.error || "Tente enviar um arquivo mais claro."}`
-      );
-      return;
+    if (await isDuplicate(chatId, file.fileId, retrySince ?? undefined)) {
+      issues.push(`${label}: já registrado`);
+      continue;
     }
 
-    // Save transaction
-    await saveTransaction(chatId, result.amount, result.bank, result.clientName, fileId, result.rawResponse);
+    try {
+      const { result, buffer, mediaType } = await downloadAndExtract(api, chatId, file);
 
-    // Increment usage for paid plans
-    await incrementUsage(chatId);
+      if (result.receipts.length === 0) {
+        issues.push(`${label}: valor não identificado`);
+        continue;
+      }
 
-    // Send running total
-    const message = await getRunningTotalMessage(chatId, result.amount, result.bank, result.clientName);
-    await ctx.reply(message);
-  } catch (error) {
-    console.error("Error processing document:", error);
-    await ctx.reply("❌ Erro ao processar o comprovante. Tente novamente.");
+      const archived = await archiveReceipt(chatId, buffer, mediaType);
+      const outcome = await saveExtractedReceipts(api, chatId, result, {
+        fileId: file.fileId,
+        source: "receipt",
+        imageHash: await getReceiptImageHash(result, buffer, mediaType),
+        contentHash: archived?.hash ?? computeFileHash(buffer),
+        receiptPath: archived?.path ?? null,
+        retrySince,
+      });
+      saved.push(...outcome.saved);
+      duplicates += outcome.duplicates;
+      pending += outcome.pending;
+      limited += outcome.limited;
+    } catch (error) {
+      if (error instanceof ExtractionUnavailableError) {
+        unavailable = error;
+        continue;
+      }
+      console.error(`Error processing album item ${file.fileId}:`, error);
+      issues.push(`${label}: erro ao processar`);
+    }
+  }
+
+  // Retry the whole album later; the receipts saved now are recognized then and make it into that reply
+  if (unavailable) throw unavailable;
+
+  if (duplicates > 0) {
+    issues.push(`${duplicates} possível(is) duplicado(s) aguardando confirmação`);
+  }
+  if (pending > 0) {
+    issues.push(`${pending} comprovante(s) aguardando revisão`);
+  }
+  if (limited > 0) {
+    issues.push(getLimitedIssue(limited));
+  }
+
+  const message = await getBatchTotalMessage(chatId, saved, issues);
+  await api.sendMessage(chatId, message);
+}
+
+/** Save one extracted receipt and count it against the plan */
+async function saveReceipt(
+  chatId: number,
+  fileId: string | null,
+  receipt: ExtractedReceipt,
+  rawResponse: string,
+  details: ReceiptDetails
+): Promise<Transaction> {
+  const transaction = await saveTransaction(
+    chatId,
+    receipt.amount!,
+    receipt.bank,
+    receipt.clientName,
+    fileId,
+    rawResponse,
+    details
+  );
+
+  // Increment usage for paid plans
+  await incrementUsage(chatId);
+
+  if (fileId) await linkExtractionCalls(chatId, fileId, transaction.id!);
+
+  return transaction;
+}
+
+/** Ask the user to confirm or correct a low-confidence amount */
+async function askForReview(api: Api, transaction: Transaction, receipt: ExtractedReceipt): Promise<void> {
+  const id = transaction.id!;
+  const reasons = receipt.confidenceReasons.length > 0 ? `\nMotivo: ${receipt.confidenceReasons.join(", ")}` : "";
+  const client = receipt.clientName ? `\n👤 ${receipt.clientName}` : "";
+  const warning = transaction.receiver_check
+    ? getReceiverCheckMessage(transaction.receiver_check as ReceiverCheck, receipt.receiverName)
+    : null;
+  const header = warning ?? "🔎 Não tenho certeza da leitura deste comprovante.";
+
+  const keyboard = new InlineKeyboard().text(
+    `✅ Confirmar ${formatCurrency(transaction.amount)}`,
+    `revisar:confirmar:${id}`
+  );
+  for (const candidate of receipt.candidateAmounts.slice(0, 3)) {
+    keyboard.row().text(formatCurrency(candidate), `revisar:valor:${id}:${candidate.toFixed(2)}`);
   }
+  keyboard
+    .row()
+    .text("✏️ Digitar valor", `revisar:digitar:${id}`)
+    .text("🗑️ Descartar", `revisar:descartar:${id}`);
+
+  await api.sendMessage(
+    transaction.chat_id,
+    `${header}${warning ? "" : reasons}${client}\n\n` +
+    `Valor lido: ${formatCurrency(transaction.amount)}\n` +
+    `Ele só entra no total depois de confirmado.`,
+    { reply_markup: keyboard }
+  );
+}
+
+/** Hold a suspected duplicate and ask the user whether to register it anyway */
+async function askAboutDuplicate(
+  api: Api,
+  pending: PendingDuplicate,
+  duplicate: DuplicateMatch
+): Promise<void> {
+  const key = crypto.randomBytes(6).toString("hex");
+  pendingDuplicates.set(key, pending);
+
+  const original = duplicate.transaction;
+  const { timeZone } = await getDaySettings(pending.chatId);
+  const originalDate = new Date(original.created_at!).toLocaleString("pt-BR", {
+    timeZone,
+    day: "2-digit",
+    month: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+  const client = original.client_name ? ` - ${original.client_name}` : "";
+  const amount = pending.receipt.amount!;
+
+  const keyboard = new InlineKeyboard()
+    .text("✅ Registrar mesmo assim", `duplicado:registrar:${key}`)
+    .row()
+    .text("🗑️ Descartar", `duplicado:descartar:${key}`);
+
+  await api.sendMessage(
+    pending.chatId,
+    `⚠️ Possível comprovante duplicado de ${formatCurrency(amount)} (${getDuplicateReasonLabel(duplicate.reason)}).\n\n` +
+    `Já registrado em ${originalDate}: ${formatCurrency(original.amount)}${client}`,
+    { reply_markup: keyboard }
+  );
 }
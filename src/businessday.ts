@@ -0,0 +1,354 @@
+import { supabase } from "./database.js";
+
+// Timezone for chats that never set one, and for bot-wide reports
+export const DEFAULT_TIMEZONE = process.env.DEFAULT_TIMEZONE || "America/Sao_Paulo";
+
+/** Per-chat day definition, stored in chat_settings */
+export interface ChatSettings {
+  chat_id: number;
+  timezone: string;
+  day_cutoff: string; // "HH:MM" (Postgres returns "HH:MM:SS"); when the business day starts
+  updated_at?: string;
+}
+
+export interface DaySettings {
+  timeZone: string;
+  cutoffMinutes: number; // minutes after local midnight; 240 for a day running 04:00 to 04:00
+}
+
+/** A half-open UTC range [start, end) */
+export interface DateRange {
+  start: Date;
+  end: Date;
+}
+
+/** One business day */
+export interface BusinessDay extends DateRange {
+  date: string; // "YYYY-MM-DD" of the local date the day starts on
+  label: string; // "dd/mm/yyyy"
+  timeZone: string;
+}
+
+/** A run of whole business days, for reports */
+export interface Period extends DateRange {
+  from: string; // first business day, "YYYY-MM-DD"
+  to: string; // last business day, inclusive
+  label: string; // "15/10/2026", "01/10/2026 a 15/10/2026", "outubro de 2026"
+  settings: DaySettings;
+}
+
+// Longest range /periodo accepts
+const MAX_PERIOD_DAYS = 366;
+
+export const DEFAULT_DAY_SETTINGS: DaySettings = { timeZone: DEFAULT_TIMEZONE, cutoffMinutes: 0 };
+
+// Settings are read on every total, so keep them in memory for a while
+const settingsCache = new Map<number, { settings: DaySettings; cachedAt: number }>();
+const SETTINGS_CACHE_TTL = 5 * 60 * 1000; // 5 minutes
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** "04:00", "4h", "4" -> 240; null when not a time of day */
+export function parseCutoff(value: string): number | null {
+  const match = value.trim().match(/^(\d{1,2})(?:[:h](\d{2})?)?$/i);
+  if (!match) return null;
+
+  const hours = parseInt(match[1], 10);
+  const minutes = match[2] ? parseInt(match[2], 10) : 0;
+  if (hours > 23 || minutes > 59) return null;
+  return hours * 60 + minutes;
+}
+
+const pad = (n: number) => String(n).padStart(2, "0");
+
+export function formatCutoff(minutes: number): string {
+  return `${pad(Math.floor(minutes / 60))}:${pad(minutes % 60)}`;
+}
+
+function toDaySettings(row: Pick<ChatSettings, "timezone" | "day_cutoff">): DaySettings {
+  return {
+    timeZone: isValidTimeZone(row.timezone) ? row.timezone : DEFAULT_TIMEZONE,
+    cutoffMinutes: parseCutoff(row.day_cutoff.slice(0, 5)) ?? 0,
+  };
+}
+
+export async function getDaySettings(chatId: number): Promise<DaySettings> {
+  const cached = settingsCache.get(chatId);
+  if (cached && Date.now() - cached.cachedAt < SETTINGS_CACHE_TTL) return cached.settings;
+
+  const { data } = await supabase
+    .from("chat_settings")
+    .select("timezone, day_cutoff")
+    .eq("chat_id", chatId)
+    .maybeSingle();
+
+  const settings = data ? toDaySettings(data) : DEFAULT_DAY_SETTINGS;
+  settingsCache.set(chatId, { settings, cachedAt: Date.now() });
+  return settings;
+}
+
+export async function updateDaySettings(
+  chatId: number,
+  changes: Partial<Pick<ChatSettings, "timezone" | "day_cutoff">>
+): Promise<DaySettings> {
+  const { data, error } = await supabase
+    .from("chat_settings")
+    .upsert(
+      { chat_id: chatId, ...changes, updated_at: new Date().toISOString() },
+      { onConflict: "chat_id" }
+    )
+    .select("timezone, day_cutoff")
+    .single();
+
+  if (error) throw error;
+
+  const settings = toDaySettings(data);
+  settingsCache.set(chatId, { settings, cachedAt: Date.now() });
+  return settings;
+}
+
+/** Drop a chat's cached settings, after its data was deleted */
+export function forgetDaySettings(chatId: number): void {
+  settingsCache.delete(chatId);
+}
+
+/** Wall-clock date and time of an instant in a timezone */
+function getZonedParts(date: Date, timeZone: string) {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).formatToParts(date);
+
+  const get = (type: Intl.DateTimeFormatPartTypes) => parseInt(parts.find((p) => p.type === type)!.value, 10);
+  return { year: get("year"), month: get("month"), day: get("day"), hour: get("hour"), minute: get("minute"), second: get("second") };
+}
+
+/** Offset of a timezone from UTC at an instant, in milliseconds */
+function getOffsetMs(date: Date, timeZone: string): number {
+  const p = getZonedParts(date, timeZone);
+  const asUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+  return asUtc - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+/** The instant a local wall-clock time happens in a timezone (day and minutes may overflow) */
+function zonedTimeToUtc(year: number, month: number, day: number, minutes: number, timeZone: string): Date {
+  const wallClock = Date.UTC(year, month - 1, day, 0, minutes);
+  const offset = getOffsetMs(new Date(wallClock), timeZone);
+  // Re-check across DST changes, where the offset at the result differs from the first guess
+  const corrected = getOffsetMs(new Date(wallClock - offset), timeZone);
+  return new Date(wallClock - corrected);
+}
+
+function splitDate(date: string): [number, number, number] {
+  const [year, month, day] = date.split("-").map((part) => parseInt(part, 10));
+  return [year, month, day];
+}
+
+/** "YYYY-MM-DD" plus a number of days */
+export function addDays(date: string, days: number): string {
+  const [year, month, day] = splitDate(date);
+  const result = new Date(Date.UTC(year, month - 1, day + days));
+  return `${result.getUTCFullYear()}-${pad(result.getUTCMonth() + 1)}-${pad(result.getUTCDate())}`;
+}
+
+function formatDateLabel(date: string): string {
+  const [year, month, day] = splitDate(date);
+  return `${pad(day)}/${pad(month)}/${year}`;
+}
+
+/** The business day that starts on a local date ("YYYY-MM-DD") */
+export function getBusinessDayOf(settings: DaySettings, date: string): BusinessDay {
+  const [year, month, day] = splitDate(date);
+
+  return {
+    start: zonedTimeToUtc(year, month, day, settings.cutoffMinutes, settings.timeZone),
+    end: zonedTimeToUtc(year, month, day + 1, settings.cutoffMinutes, settings.timeZone),
+    date,
+    label: formatDateLabel(date),
+    timeZone: settings.timeZone,
+  };
+}
+
+/** The business day an instant belongs to; before the cutoff it still counts as the previous day */
+export function getBusinessDay(settings: DaySettings, at: Date = new Date()): BusinessDay {
+  const local = getZonedParts(at, settings.timeZone);
+  const minutes = local.hour * 60 + local.minute;
+  const date = `${local.year}-${pad(local.month)}-${pad(local.day)}`;
+
+  return getBusinessDayOf(settings, minutes < settings.cutoffMinutes ? addDays(date, -1) : date);
+}
+
+/** The instant a local time of day ("HH:MM" as minutes) happens, counted from the calendar date a business day starts on */
+export function getLocalTimeOn(settings: DaySettings, date: string, minutes: number): Date {
+  const [year, month, day] = splitDate(date);
+  return zonedTimeToUtc(year, month, day, minutes, settings.timeZone);
+}
+
+/** An instant moved to another business day, at the same point of the day */
+export function moveToBusinessDay(settings: DaySettings, at: Date, date: string): Date {
+  const from = getBusinessDay(settings, at);
+  const to = getBusinessDayOf(settings, date);
+  // DST days are an hour shorter; keep the result inside the target day
+  const offset = Math.min(at.getTime() - from.start.getTime(), to.end.getTime() - to.start.getTime() - 1);
+  return new Date(to.start.getTime() + offset);
+}
+
+/** Every business day from one date to another, inclusive */
+export function getRangePeriod(settings: DaySettings, from: string, to: string, label?: string): Period {
+  return {
+    start: getBusinessDayOf(settings, from).start,
+    end: getBusinessDayOf(settings, to).end,
+    from,
+    to,
+    label: label ?? (from === to ? formatDateLabel(from) : `${formatDateLabel(from)} a ${formatDateLabel(to)}`),
+    settings,
+  };
+}
+
+export function getDayPeriod(settings: DaySettings, date: string): Period {
+  return getRangePeriod(settings, date, date);
+}
+
+/** Monday to Sunday around the current business day */
+export function getWeekPeriod(settings: DaySettings, at: Date = new Date()): Period {
+  const today = getBusinessDay(settings, at).date;
+  const [year, month, day] = splitDate(today);
+  const weekday = new Date(Date.UTC(year, month - 1, day)).getUTCDay(); // 0 = Sunday
+  const monday = addDays(today, -((weekday + 6) % 7));
+  return getRangePeriod(settings, monday, addDays(monday, 6));
+}
+
+export function getMonthPeriod(settings: DaySettings, year: number, month: number): Period {
+  const first = `${year}-${pad(month)}-01`;
+  const last = addDays(`${month === 12 ? year + 1 : year}-${pad(month === 12 ? 1 : month + 1)}-01`, -1);
+  const name = new Date(Date.UTC(year, month - 1, 1)).toLocaleDateString("pt-BR", {
+    month: "long",
+    year: "numeric",
+    timeZone: "UTC",
+  });
+  return getRangePeriod(settings, first, last, name);
+}
+
+/** The period right before another, for comparisons: the previous month for a calendar month, else as many days before */
+export function getPreviousPeriod(period: Period): Period {
+  const nextDay = addDays(period.to, 1);
+  if (period.from.endsWith("-01") && nextDay.endsWith("-01") && period.from.slice(0, 7) === period.to.slice(0, 7)) {
+    const [year, month] = splitDate(addDays(period.from, -1));
+    return getMonthPeriod(period.settings, year, month);
+  }
+
+  const days = getPeriodDays(period).length;
+  return getRangePeriod(period.settings, addDays(period.from, -days), addDays(period.from, -1));
+}
+
+/** Every business day of a period, in order */
+export function getPeriodDays(period: Period): string[] {
+  const days: string[] = [];
+  for (let date = period.from; date <= period.to; date = addDays(date, 1)) {
+    days.push(date);
+  }
+  return days;
+}
+
+function isValidDate(year: number, month: number, day: number): boolean {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return date.getUTCFullYear() === year && date.getUTCMonth() === month - 1 && date.getUTCDate() === day;
+}
+
+/** "15/10", "15/10/2026" or "15/10/26" -> "2026-10-15"; the year defaults to the current business day's */
+export function parseDateArg(value: string, today: BusinessDay): string | null {
+  const match = value.trim().match(/^(\d{1,2})\/(\d{1,2})(?:\/(\d{2}|\d{4}))?$/);
+  if (!match) return null;
+
+  const day = parseInt(match[1], 10);
+  const month = parseInt(match[2], 10);
+  let year = match[3] ? parseInt(match[3], 10) : splitDate(today.date)[0];
+  if (year < 100) year += 2000;
+
+  return isValidDate(year, month, day) ? `${year}-${pad(month)}-${pad(day)}` : null;
+}
+
+/** "09/2026", "9/26" or "09" -> year and month; the year defaults to the current business day's */
+export function parseMonthArg(value: string, today: BusinessDay): { year: number; month: number } | null {
+  const match = value.trim().match(/^(\d{1,2})(?:\/(\d{2}|\d{4}))?$/);
+  if (!match) return null;
+
+  const month = parseInt(match[1], 10);
+  let year = match[2] ? parseInt(match[2], 10) : splitDate(today.date)[0];
+  if (year < 100) year += 2000;
+
+  return month >= 1 && month <= 12 ? { year, month } : null;
+}
+
+/** Whether a custom range is in order and not longer than /periodo allows */
+export function isValidRange(from: string, to: string): boolean {
+  return from <= to && addDays(from, MAX_PERIOD_DAYS - 1) >= to;
+}
+
+/**
+ * Period from command arguments: "hoje", "ontem", "semana", "mes", a day ("15/10"),
+ * a month ("09/2026") or a range ("01/10 15/10"). Null when the arguments are not a valid period.
+ */
+export function parsePeriodArgs(settings: DaySettings, args: string[]): Period | null {
+  const today = getBusinessDay(settings);
+  const [first, second] = args.map((arg) => arg.toLowerCase());
+
+  if (second !== undefined) {
+    const from = parseDateArg(first, today);
+    const to = parseDateArg(second, today);
+    return from && to && isValidRange(from, to) ? getRangePeriod(settings, from, to) : null;
+  }
+
+  if (first === "hoje") return getDayPeriod(settings, today.date);
+  if (first === "ontem") return getDayPeriod(settings, addDays(today.date, -1));
+  if (first === "semana") return getWeekPeriod(settings);
+  if (first === "mes" || first === "mês") {
+    const [year, month] = splitDate(today.date);
+    return getMonthPeriod(settings, year, month);
+  }
+
+  const date = parseDateArg(first, today);
+  if (date) return getDayPeriod(settings, date);
+
+  const month = /^\d{1,2}\/\d{2,4}$/.test(first) ? parseMonthArg(first, today) : null;
+  return month ? getMonthPeriod(settings, month.year, month.month) : null;
+}
+
+/** The chat's current business day */
+export async function getChatBusinessDay(chatId: number, at: Date = new Date()): Promise<BusinessDay> {
+  return getBusinessDay(await getDaySettings(chatId), at);
+}
+
+/** "14:32" in the given timezone */
+export function formatTimeInZone(date: Date, timeZone: string): string {
+  return date.toLocaleTimeString("pt-BR", { hour: "2-digit", minute: "2-digit", timeZone });
+}
+
+export function getDaySettingsMessage(settings: DaySettings): string {
+  const day = getBusinessDay(settings);
+  const cutoff = formatCutoff(settings.cutoffMinutes);
+
+  return (
+    `🕐 Horário do caixa\n\n` +
+    `Fuso horário: ${settings.timeZone}\n` +
+    `Virada do dia: ${cutoff}\n` +
+    `Dia atual: ${day.label} (${formatTimeInZone(day.start, settings.timeZone)} até ` +
+    `${formatTimeInZone(day.end, settings.timeZone)})\n\n` +
+    `Configure com:\n` +
+    `/horario fuso America/Manaus\n` +
+    `/horario virada 04:00 (o dia vai das 04:00 às 04:00 do dia seguinte)`
+  );
+}
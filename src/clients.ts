@@ -0,0 +1,405 @@
+import { supabase, getTransactions, Transaction, MAX_ROWS_PER_REQUEST, IDS_PER_REQUEST } from "./database.js";
+import { Period, formatTimeInZone, getDaySettings } from "./businessday.js";
+import { formatCurrency } from "./summary.js";
+import { formatPaymentMethod } from "./labels.js";
+import { normalizeName } from "./text.js";
+
+/** One customer of a chat; every spelling of their name seen on receipts is an alias */
+export interface Client {
+  id: number;
+  chat_id: number;
+  name: string; // display name, the most complete spelling seen
+  search_key: string; // client key of the display name
+  aliases: string[]; // client keys of every spelling grouped into this client
+  created_at?: string;
+  updated_at?: string;
+}
+
+export interface ClientStats {
+  client: Client;
+  total: number;
+  count: number;
+}
+
+// Connecting words that receipts drop or abbreviate inconsistently
+const NAME_PARTICLES = new Set(["DA", "DE", "DO", "DAS", "DOS", "E"]);
+
+const RANKING_SIZE = 10;
+const HISTORY_SIZE = 10;
+
+/** "João da Silva", "JOAO DA SILVA." and "Joao Silva" -> "JOAO SILVA" */
+export function getClientKey(name: string): string {
+  return normalizeName(name)
+    .split(" ")
+    .filter((word) => word && !NAME_PARTICLES.has(word))
+    .join(" ");
+}
+
+/** Every word of `short` after the first appears in order in `long`, a single letter standing for a word */
+function wordsAppearInOrder(short: string[], long: string[]): boolean {
+  let next = 1;
+  for (const word of short.slice(1)) {
+    while (next < long.length && !(long[next] === word || (word.length === 1 && long[next].startsWith(word)))) {
+      next++;
+    }
+    if (next === long.length) return false;
+    next++;
+  }
+  return true;
+}
+
+/**
+ * Whether two client keys are likely the same person: same first name, and the other words of
+ * one appear in order in the other, where a single letter stands for a word starting with it
+ * ("JOAO S" matches "JOAO SILVA"). A first name alone never matches.
+ */
+export function clientKeysMatch(a: string, b: string): boolean {
+  if (a === b) return true;
+
+  const wordsA = a.split(" ");
+  const wordsB = b.split(" ");
+  if (Math.min(wordsA.length, wordsB.length) < 2 || wordsA[0] !== wordsB[0]) return false;
+
+  return (
+    (wordsA.length <= wordsB.length && wordsAppearInOrder(wordsA, wordsB)) ||
+    (wordsB.length <= wordsA.length && wordsAppearInOrder(wordsB, wordsA))
+  );
+}
+
+/** "JOÃO DA SILVA" -> "João da Silva" */
+function toDisplayName(name: string): string {
+  return name
+    .trim()
+    .replace(/[.\s]+$/, "")
+    .toLowerCase()
+    .split(/\s+/)
+    .map((word) => (NAME_PARTICLES.has(normalizeName(word)) ? word : word.charAt(0).toUpperCase() + word.slice(1)))
+    .join(" ");
+}
+
+async function getClientByAlias(chatId: number, key: string): Promise<Client | null> {
+  const { data, error } = await supabase
+    .from("clients")
+    .select("*")
+    .eq("chat_id", chatId)
+    .contains("aliases", [key])
+    .limit(1);
+
+  if (error) throw error;
+  return data?.[0] ?? null;
+}
+
+async function getClientsByFirstName(chatId: number, firstName: string): Promise<Client[]> {
+  const { data, error } = await supabase
+    .from("clients")
+    .select("*")
+    .eq("chat_id", chatId)
+    .like("search_key", `${firstName}%`);
+
+  if (error) throw error;
+  return data ?? [];
+}
+
+export async function getClientById(chatId: number, clientId: number): Promise<Client | null> {
+  const { data } = await supabase
+    .from("clients")
+    .select("*")
+    .eq("chat_id", chatId)
+    .eq("id", clientId)
+    .maybeSingle();
+
+  return data;
+}
+
+async function createClient(chatId: number, name: string, aliases: string[]): Promise<Client> {
+  const { data, error } = await supabase
+    .from("clients")
+    .insert({ chat_id: chatId, name: toDisplayName(name), search_key: getClientKey(name), aliases })
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+/** Add a spelling to a client, keeping the longest one as display name */
+async function addAlias(client: Client, name: string, key: string): Promise<void> {
+  const changes: Partial<Client> = { aliases: [...client.aliases, key] };
+  if (key.length > client.search_key.length) {
+    changes.name = toDisplayName(name);
+    changes.search_key = key;
+  }
+
+  const { error } = await supabase
+    .from("clients")
+    .update({ ...changes, updated_at: new Date().toISOString() })
+    .eq("id", client.id);
+
+  if (error) throw error;
+}
+
+/**
+ * The client a name read from a receipt belongs to, created when new.
+ * A known spelling wins; otherwise the name joins the only client it likely matches.
+ * When it matches several clients it gets its own, to be merged by hand if needed.
+ */
+export async function resolveClientId(chatId: number, name: string | null | undefined): Promise<number | null> {
+  if (!name) return null;
+  const key = getClientKey(name);
+  if (!key) return null;
+
+  const known = await getClientByAlias(chatId, key);
+  if (known) return known.id;
+
+  const candidates = await getClientsByFirstName(chatId, key.split(" ")[0]);
+  const matches = candidates.filter((client) => client.aliases.some((alias) => clientKeysMatch(alias, key)));
+  if (matches.length === 1) {
+    await addAlias(matches[0], name, key);
+    return matches[0].id;
+  }
+
+  return (await createClient(chatId, name, [key])).id;
+}
+
+/**
+ * Link transactions saved before the client directory existed, in every chat.
+ * Run once at startup; new and edited transactions get their client when saved.
+ */
+export async function assignMissingClients(): Promise<number> {
+  let assigned = 0;
+
+  // Names with nothing left after normalization never get a client, so walk past them by id
+  for (let lastId = 0; ; ) {
+    const { data, error } = await supabase
+      .from("transactions")
+      .select("id, chat_id, client_name")
+      .is("client_id", null)
+      .not("client_name", "is", null)
+      .is("deleted_at", null)
+      .gt("id", lastId)
+      .order("id", { ascending: true })
+      .limit(MAX_ROWS_PER_REQUEST);
+
+    if (error) throw error;
+    if (!data || data.length === 0) return assigned;
+
+    for (const t of data) {
+      const clientId = await resolveClientId(t.chat_id, t.client_name);
+      if (clientId === null) continue;
+
+      const { error: updateError } = await supabase.from("transactions").update({ client_id: clientId }).eq("id", t.id);
+      if (updateError) throw updateError;
+      assigned++;
+    }
+    lastId = data[data.length - 1].id;
+  }
+}
+
+/** Clients whose name matches what the user typed: known spellings first, then likely matches */
+export async function findClients(chatId: number, query: string): Promise<Client[]> {
+  const key = getClientKey(query);
+  if (!key) return [];
+
+  const known = await getClientByAlias(chatId, key);
+  if (known) return [known];
+
+  const { data, error } = await supabase
+    .from("clients")
+    .select("*")
+    .eq("chat_id", chatId)
+    .ilike("search_key", `%${key.split(" ")[0]}%`);
+
+  if (error) throw error;
+  const clients: Client[] = data ?? [];
+
+  const likely = clients.filter((client) => client.aliases.some((alias) => clientKeysMatch(alias, key)));
+  if (likely.length > 0) return likely;
+
+  return clients.filter((client) => client.aliases.some((alias) => alias.includes(key)));
+}
+
+/** Move every transaction of one client into another and drop the first */
+export async function mergeClients(chatId: number, target: Client, source: Client): Promise<Client> {
+  const { error: moveError } = await supabase
+    .from("transactions")
+    .update({ client_id: target.id })
+    .eq("chat_id", chatId)
+    .eq("client_id", source.id);
+
+  if (moveError) throw moveError;
+
+  const aliases = [...new Set([...target.aliases, ...source.aliases])];
+  const { data, error } = await supabase
+    .from("clients")
+    .update({ aliases, updated_at: new Date().toISOString() })
+    .eq("id", target.id)
+    .select()
+    .single();
+
+  if (error) throw error;
+
+  const { error: deleteError } = await supabase.from("clients").delete().eq("id", source.id);
+  if (deleteError) throw deleteError;
+
+  return data;
+}
+
+/** Take one spelling out of a client into a client of its own, with its transactions */
+export async function splitClient(chatId: number, client: Client, name: string): Promise<Client | null> {
+  const key = getClientKey(name);
+  if (!client.aliases.includes(key) || client.aliases.length < 2) return null;
+
+  const created = await createClient(chatId, name, [key]);
+
+  const ids: number[] = [];
+  for (let from = 0; ; from += MAX_ROWS_PER_REQUEST) {
+    const { data, error } = await supabase
+      .from("transactions")
+      .select("id, client_name")
+      .eq("chat_id", chatId)
+      .eq("client_id", client.id)
+      .is("deleted_at", null)
+      .order("id", { ascending: true })
+      .range(from, from + MAX_ROWS_PER_REQUEST - 1);
+
+    if (error) throw error;
+    ids.push(...(data ?? []).filter((t) => t.client_name && getClientKey(t.client_name) === key).map((t) => t.id));
+    if (!data || data.length < MAX_ROWS_PER_REQUEST) break;
+  }
+
+  for (let i = 0; i < ids.length; i += IDS_PER_REQUEST) {
+    const { error: moveError } = await supabase
+      .from("transactions")
+      .update({ client_id: created.id })
+      .in("id", ids.slice(i, i + IDS_PER_REQUEST));
+
+    if (moveError) throw moveError;
+  }
+
+  const aliases = client.aliases.filter((alias) => alias !== key);
+  const changes: Partial<Client> = { aliases };
+  // The display name may have been the spelling that left
+  if (client.search_key === key) {
+    changes.search_key = aliases.reduce((a, b) => (b.length > a.length ? b : a));
+    changes.name = toDisplayName(changes.search_key);
+  }
+
+  const { error: updateError } = await supabase
+    .from("clients")
+    .update({ ...changes, updated_at: new Date().toISOString() })
+    .eq("id", client.id);
+
+  if (updateError) throw updateError;
+  return created;
+}
+
+/** Amount and number of payments per client in a period, largest total first */
+export async function getClientRanking(chatId: number, period: Period): Promise<ClientStats[]> {
+  const transactions = await getTransactions(chatId, period);
+
+  const byClient = new Map<number, { total: number; count: number }>();
+  for (const t of transactions) {
+    if (!t.client_id) continue;
+    const stats = byClient.get(t.client_id) ?? { total: 0, count: 0 };
+    stats.total += t.amount;
+    stats.count++;
+    byClient.set(t.client_id, stats);
+  }
+
+  if (byClient.size === 0) return [];
+
+  const clientIds = [...byClient.keys()];
+  const clients: Client[] = [];
+  for (let i = 0; i < clientIds.length; i += IDS_PER_REQUEST) {
+    const { data, error } = await supabase
+      .from("clients")
+      .select("*")
+      .eq("chat_id", chatId)
+      .in("id", clientIds.slice(i, i + IDS_PER_REQUEST));
+
+    if (error) throw error;
+    clients.push(...(data ?? []));
+  }
+
+  return clients
+    .map((client: Client) => ({ client, ...byClient.get(client.id)! }))
+    .sort((a, b) => b.total - a.total);
+}
+
+/** Every payment of a client, newest first */
+export async function getClientTransactions(chatId: number, clientId: number): Promise<Transaction[]> {
+  const transactions: Transaction[] = [];
+
+  for (let from = 0; ; from += MAX_ROWS_PER_REQUEST) {
+    const { data, error } = await supabase
+      .from("transactions")
+      .select("*")
+      .eq("chat_id", chatId)
+      .eq("client_id", clientId)
+      .eq("status", "confirmed")
+      .is("deleted_at", null)
+      .order("created_at", { ascending: false })
+      .range(from, from + MAX_ROWS_PER_REQUEST - 1);
+
+    if (error) throw error;
+    transactions.push(...(data ?? []));
+    if (!data || data.length < MAX_ROWS_PER_REQUEST) return transactions;
+  }
+}
+
+export async function getClientRankingMessage(chatId: number, period: Period): Promise<string> {
+  const ranking = await getClientRanking(chatId, period);
+
+  if (ranking.length === 0) {
+    return `Nenhum cliente identificado em ${period.label}.`;
+  }
+
+  const byAmount = ranking
+    .slice(0, RANKING_SIZE)
+    .map((s, i) => `${i + 1}. ${s.client.name} - ${formatCurrency(s.total)} (${s.count}x)`);
+
+  const byFrequency = [...ranking]
+    .sort((a, b) => b.count - a.count || b.total - a.total)
+    .slice(0, RANKING_SIZE)
+    .map((s, i) => `${i + 1}. ${s.client.name} - ${s.count}x (${formatCurrency(s.total)})`);
+
+  return (
+    `👥 Clientes - ${period.label} (${ranking.length})\n\n` +
+    `💰 Por valor:\n${byAmount.join("\n")}\n\n` +
+    `🔁 Por frequência:\n${byFrequency.join("\n")}`
+  );
+}
+
+export async function getClientMessage(chatId: number, client: Client): Promise<string> {
+  const transactions = await getClientTransactions(chatId, client.id);
+  const { timeZone } = await getDaySettings(chatId);
+
+  const formatWhen = (t: Transaction) => {
+    const when = new Date(t.paid_at || t.created_at!);
+    return `${when.toLocaleDateString("pt-BR", { timeZone })} ${formatTimeInZone(when, timeZone)}`;
+  };
+
+  const spellings = client.aliases.length > 1 ? `\nGrafias: ${client.aliases.join(", ")}` : "";
+
+  if (transactions.length === 0) {
+    return `👤 ${client.name}${spellings}\n\nNenhum pagamento registrado.`;
+  }
+
+  const total = transactions.reduce((sum, t) => sum + t.amount, 0);
+  const last = transactions[0];
+  const first = transactions[transactions.length - 1];
+  const visits = transactions
+    .slice(0, HISTORY_SIZE)
+    .map((t) => `• ${formatWhen(t)} - ${formatCurrency(t.amount)} (${formatPaymentMethod(t)})`);
+  const more = transactions.length > HISTORY_SIZE ? `\n... e mais ${transactions.length - HISTORY_SIZE}` : "";
+
+  return (
+    `👤 ${client.name}${spellings}\n\n` +
+    `💰 Total: ${formatCurrency(total)}\n` +
+    `🔁 Visitas: ${transactions.length}\n` +
+    `🎫 Ticket médio: ${formatCurrency(total / transactions.length)}\n` +
+    `🕐 Último pagamento: ${formatWhen(last)} - ${formatCurrency(last.amount)}\n` +
+    `📅 Cliente desde: ${formatWhen(first)}\n\n` +
+    `Últimas visitas:\n${visits.join("\n")}${more}`
+  );
+}
@@ -0,0 +1,151 @@
+import { supabase } from "./database.js";
+import { ExtractionCall } from "./extractor.js";
+import { PLANS, PlanType } from "./subscription.js";
+import { formatCurrency, formatDate } from "./summary.js";
+
+// USD per million tokens (input, output)
+const MODEL_PRICING: Record<string, { input: number; output: number }> = {
+  "claude-3-5-haiku-20241022": { input: 0.8, output: 4 },
+  "claude-haiku-4-5": { input: 1, output: 5 },
+  "claude-sonnet-4-20250514": { input: 3, output: 15 },
+  "claude-sonnet-4-5": { input: 3, output: 15 },
+  "claude-opus-4-1": { input: 15, output: 75 },
+};
+const FALLBACK_PRICING = { input: 3, output: 15 };
+
+const USD_BRL_RATE = parseFloat(process.env.USD_BRL_RATE || "5.5");
+
+export interface ExtractionCallRow {
+  id?: number;
+  chat_id: number;
+  transaction_id: number | null;
+  telegram_file_id: string | null; // null for notification texts
+  engine: string;
+  model: string | null;
+  input_tokens: number;
+  output_tokens: number;
+  latency_ms: number;
+  success: boolean;
+  cost_usd: number;
+  created_at?: string;
+}
+
+export function getCallCostUsd(call: ExtractionCall): number {
+  if (!call.model) return 0;
+  const pricing = MODEL_PRICING[call.model] ?? FALLBACK_PRICING;
+  return (call.inputTokens * pricing.input + call.outputTokens * pricing.output) / 1_000_000;
+}
+
+/**
+ * Store the calls made to extract one file; they are linked to a transaction once it is saved.
+ * Notification texts have no file id, so their calls only count towards the chat's cost.
+ */
+export async function recordExtractionCalls(
+  chatId: number,
+  telegramFileId: string | null,
+  calls: ExtractionCall[]
+): Promise<void> {
+  if (calls.length === 0) return;
+
+  const { error } = await supabase.from("extraction_calls").insert(
+    calls.map((call) => ({
+      chat_id: chatId,
+      telegram_file_id: telegramFileId,
+      engine: call.engine,
+      model: call.model,
+      input_tokens: call.inputTokens,
+      output_tokens: call.outputTokens,
+      latency_ms: call.latencyMs,
+      success: call.success,
+      cost_usd: getCallCostUsd(call),
+    }))
+  );
+
+  // Accounting must never block a receipt
+  if (error) console.error("Failed to record extraction calls:", error);
+}
+
+/** Attach a file's still-unlinked extraction calls to the transaction saved from it */
+export async function linkExtractionCalls(
+  chatId: number,
+  telegramFileId: string,
+  transactionId: number
+): Promise<void> {
+  const { error } = await supabase
+    .from("extraction_calls")
+    .update({ transaction_id: transactionId })
+    .eq("chat_id", chatId)
+    .eq("telegram_file_id", telegramFileId)
+    .is("transaction_id", null);
+
+  if (error) console.error("Failed to link extraction calls:", error);
+}
+
+function formatUsd(value: number): string {
+  return `US$ ${value.toFixed(2)}`;
+}
+
+/** Admin report: extraction cost per chat and per plan since a date, compared with plan prices */
+export async function getCostReportMessage(since: Date): Promise<string> {
+  const { data: calls, error } = await supabase
+    .from("extraction_calls")
+    .select("chat_id, cost_usd")
+    .gte("created_at", since.toISOString());
+
+  if (error) throw error;
+
+  const { data: subscriptions } = await supabase
+    .from("subscriptions")
+    .select("chat_id, plan");
+
+  const planByChat = new Map<number, PlanType>();
+  subscriptions?.forEach((s) => planByChat.set(s.chat_id, s.plan as PlanType));
+
+  const byChat = new Map<number, { calls: number; costUsd: number }>();
+  for (const call of calls ?? []) {
+    const entry = byChat.get(call.chat_id) ?? { calls: 0, costUsd: 0 };
+    entry.calls++;
+    entry.costUsd += Number(call.cost_usd);
+    byChat.set(call.chat_id, entry);
+  }
+
+  const byPlan = new Map<PlanType, { chats: number; costUsd: number }>();
+  for (const [chatId, entry] of byChat) {
+    const plan = planByChat.get(chatId) ?? "free";
+    const planEntry = byPlan.get(plan) ?? { chats: 0, costUsd: 0 };
+    planEntry.chats++;
+    planEntry.costUsd += entry.costUsd;
+    byPlan.set(plan, planEntry);
+  }
+
+  const totalUsd = [...byChat.values()].reduce((sum, e) => sum + e.costUsd, 0);
+  const totalCalls = calls?.length ?? 0;
+
+  const planLines = (Object.keys(PLANS) as PlanType[]).map((plan, i, plans) => {
+    const entry = byPlan.get(plan) ?? { chats: 0, costUsd: 0 };
+    const prefix = i === plans.length - 1 ? "└" : "├";
+    const costBrl = entry.costUsd * USD_BRL_RATE;
+    const average = entry.chats > 0 ? costBrl / entry.chats : 0;
+    const price = PLANS[plan].price > 0 ? ` de ${formatCurrency(PLANS[plan].price)}` : "";
+    return (
+      `${prefix} ${PLANS[plan].displayName}: ${formatCurrency(costBrl)} ` +
+      `(${entry.chats} chats, média ${formatCurrency(average)}/chat${price})`
+    );
+  });
+
+  const topChats = [...byChat.entries()]
+    .sort((a, b) => b[1].costUsd - a[1].costUsd)
+    .slice(0, 10)
+    .map(([chatId, entry], i) => {
+      const plan = PLANS[planByChat.get(chatId) ?? "free"].displayName;
+      return `${i + 1}. ${chatId} (${plan}): ${formatCurrency(entry.costUsd * USD_BRL_RATE)} - ${entry.calls} chamadas`;
+    });
+
+  return (
+    `💸 *Custo de extração* (desde ${formatDate(since)})\n\n` +
+    `Total: ${formatUsd(totalUsd)} (${formatCurrency(totalUsd * USD_BRL_RATE)}) em ${totalCalls} chamadas\n` +
+    `Câmbio: R$ ${USD_BRL_RATE.toFixed(2)}\n\n` +
+    `*Por plano:*\n${planLines.join("\n")}\n\n` +
+    `*Top chats:*\n${topChats.length > 0 ? topChats.join("\n") : "Nenhuma chamada no período"}`
+  );
+}
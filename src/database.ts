@@ -1,16 +1,24 @@
 import { createClient } from "@supabase/supabase-js";
+import { DateRange } from "./businessday.js";
+import { newBatchId, recordAudit, Actor } from "./audit.js";
+import { resolveClientId } from "./clients.js";
+import { assertShiftsOpen, getOpenShiftId } from "./shifts.js";
 
 const supabaseUrl = process.env.SUPABASE_URL!;
 const supabaseKey = process.env.SUPABASE_SERVICE_KEY!;
 
 export const supabase = createClient(supabaseUrl, supabaseKey);
 
-/** Returns ISO string for start of today (00:00:00) in local timezone */
-export function getStartOfTodayISO(): string {
-  const today = new Date();
-  today.setHours(0, 0, 0, 0);
-  return today.toISOString();
-}
+// How a sale was paid. "outro" marks documents that are not a payment proof.
+export type PaymentMethod = "pix" | "ted" | "doc" | "boleto" | "credito" | "debito" | "dinheiro" | "outro";
+
+export const PAYMENT_METHODS: PaymentMethod[] = ["pix", "ted", "doc", "boleto", "credito", "debito", "dinheiro", "outro"];
+
+// Where a transaction came from: an extracted receipt or a manual /add entry
+export type TransactionSource = "receipt" | "manual" | "notification";
+
+// Low-confidence extractions stay "pending" until the user confirms the amount
+export type TransactionStatus = "confirmed" | "pending";
 
 export interface Transaction {
   id?: number;
@@ -18,18 +26,68 @@ export interface Transaction {
   amount: number;
   bank_detected: string | null;
   client_name: string | null;
-  telegram_file_id: string;
-  raw_response: string;
+  client_id?: number | null; // the client directory entry the name was grouped into
+  shift_id?: number | null; // the cash register shift open when it was registered, see shifts.ts
+  payment_method?: PaymentMethod;
+  card_brand?: string | null;
+  installments?: number | null;
+  e2e_id?: string | null;
+  paid_at?: string | null;
+  receiver_name?: string | null;
+  receiver_institution?: string | null;
+  payer_document?: string | null;
+  payer_bank?: string | null;
+  receipt_fingerprint?: string | null;
+  image_hash?: string | null;
+  content_hash?: string | null;
+  receipt_index?: number | null; // position within its file or notification
+  status?: TransactionStatus;
+  confidence?: string | null;
+  confidence_reasons?: string[] | null;
+  receiver_check?: string | null;
+  extraction_engine?: string | null;
+  source?: TransactionSource;
+  telegram_file_id: string | null; // null for manual entries and notifications
+  receipt_path?: string | null; // archived copy of the file, see storage.ts
+  raw_response: string | null;
+  note?: string | null; // free text the user attached with /editar
   created_at?: string;
+  deleted_at?: string | null; // soft delete; deleted transactions are kept for the audit log and /desfazer
 }
 
+/** Receipt fields beyond amount, bank and client name */
+export type ReceiptDetails = Pick<
+  Transaction,
+  | "payment_method"
+  | "card_brand"
+  | "installments"
+  | "e2e_id"
+  | "paid_at"
+  | "receiver_name"
+  | "receiver_institution"
+  | "payer_document"
+  | "payer_bank"
+  | "receipt_fingerprint"
+  | "image_hash"
+  | "content_hash"
+  | "receipt_index"
+  | "receipt_path"
+  | "status"
+  | "confidence"
+  | "confidence_reasons"
+  | "receiver_check"
+  | "extraction_engine"
+  | "source"
+>;
+
 export async function saveTransaction(
   chatId: number,
   amount: number,
   bankDetected: string | null,
   clientName: string | null,
-  telegramFileId: string,
-  rawResponse: string
+  telegramFileId: string | null,
+  rawResponse: string,
+  details: ReceiptDetails = {}
 ): Promise<Transaction> {
   const { data, error } = await supabase
     .from("transactions")
@@ -38,6 +96,9 @@ export async function saveTransaction(
       amount,
       bank_detected: bankDetected,
       client_name: clientName,
+      client_id: await resolveClientId(chatId, clientName),
+      shift_id: await getOpenShiftId(chatId),
+      ...details,
       telegram_file_id: telegramFileId,
       raw_response: rawResponse,
     })
@@ -48,74 +109,254 @@ export async function saveTransaction(
   return data;
 }
 
-export async function isDuplicate(chatId: number, telegramFileId: string): Promise<boolean> {
-  const { data } = await supabase
+/** Record a sale typed in by hand (cash, payments without a receipt) */
+export async function saveManualTransaction(
+  chatId: number,
+  amount: number,
+  clientName: string | null,
+  paymentMethod: PaymentMethod
+): Promise<Transaction> {
+  const { data, error } = await supabase
+    .from("transactions")
+    .insert({
+      chat_id: chatId,
+      amount,
+      bank_detected: null,
+      client_name: clientName,
+      client_id: await resolveClientId(chatId, clientName),
+      shift_id: await getOpenShiftId(chatId),
+      payment_method: paymentMethod,
+      source: "manual",
+      telegram_file_id: null,
+      raw_response: null,
+    })
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+/** Whether the file is already registered; with `before`, only counting what was saved before then */
+export async function isDuplicate(chatId: number, telegramFileId: string, before?: string): Promise<boolean> {
+  let query = supabase
     .from("transactions")
     .select("id")
     .eq("chat_id", chatId)
     .eq("telegram_file_id", telegramFileId)
-    .limit(1);
+    .is("deleted_at", null);
+
+  if (before) query = query.lt("created_at", before);
+  const { data } = await query.limit(1);
 
   return (data?.length ?? 0) > 0;
 }
 
-export async function getTodayStats(chatId: number): Promise<{ total: number; count: number }> {
-  const todayISO = getStartOfTodayISO();
-
+/** A receipt saved since `since`, found by the hash of its file or notification and its position in it */
+export async function findSavedReceipt(
+  chatId: number,
+  contentHash: string,
+  receiptIndex: number,
+  since: string
+): Promise<Transaction | null> {
   const { data, error } = await supabase
     .from("transactions")
-    .select("amount")
+    .select("*")
     .eq("chat_id", chatId)
-    .gte("created_at", todayISO);
+    .eq("content_hash", contentHash)
+    .eq("receipt_index", receiptIndex)
+    .gte("created_at", since)
+    .is("deleted_at", null)
+    .limit(1);
 
   if (error) throw error;
+  return data?.[0] ?? null;
+}
+
+export interface MethodStats {
+  total: number;
+  count: number;
+}
+
+/** Totals and counts per payment method */
+export function groupByMethod(
+  transactions: Pick<Transaction, "amount" | "payment_method">[]
+): Partial<Record<PaymentMethod, MethodStats>> {
+  const byMethod: Partial<Record<PaymentMethod, MethodStats>> = {};
+  for (const t of transactions) {
+    const method = t.payment_method ?? "pix";
+    const stats = byMethod[method] ?? { total: 0, count: 0 };
+    stats.total += t.amount;
+    stats.count++;
+    byMethod[method] = stats;
+  }
+  return byMethod;
+}
+
+export interface PeriodStats {
+  total: number;
+  count: number;
+  byMethod: Partial<Record<PaymentMethod, MethodStats>>;
+}
+
+// PostgREST returns at most 1000 rows per request, so long periods are read in pages
+export const MAX_ROWS_PER_REQUEST = 1000;
+
+// Ids filtered with .in() go in the request URL, so long lists are sent in chunks
+export const IDS_PER_REQUEST = 200;
+
+/** Confirmed transactions created within a range, oldest first */
+async function selectConfirmedInRange(chatId: number, range: DateRange, columns: string): Promise<Transaction[]> {
+  const rows: Transaction[] = [];
+
+  for (let offset = 0; ; offset += MAX_ROWS_PER_REQUEST) {
+    const { data, error } = await supabase
+      .from("transactions")
+      .select(columns)
+      .eq("chat_id", chatId)
+      .eq("status", "confirmed")
+      .is("deleted_at", null)
+      .gte("created_at", range.start.toISOString())
+      .lt("created_at", range.end.toISOString())
+      .order("created_at", { ascending: true })
+      .order("id", { ascending: true })
+      .range(offset, offset + MAX_ROWS_PER_REQUEST - 1);
+
+    if (error) throw error;
+    rows.push(...((data ?? []) as unknown as Transaction[]));
+    if (!data || data.length < MAX_ROWS_PER_REQUEST) return rows;
+  }
+}
+
+export async function getStats(chatId: number, range: DateRange): Promise<PeriodStats> {
+  const data = await selectConfirmedInRange(chatId, range, "amount, payment_method");
 
-  const total = data?.reduce((sum, t) => sum + t.amount, 0) ?? 0;
-  const count = data?.length ?? 0;
+  const total = data.reduce((sum, t) => sum + t.amount, 0);
+  const count = data.length;
+  const byMethod = groupByMethod(data);
 
-  return { total, count };
+  return { total, count, byMethod };
 }
 
-export async function getTodayTransactions(chatId: number): Promise<Transaction[]> {
-  const todayISO = getStartOfTodayISO();
+export async function getTransactions(chatId: number, range: DateRange): Promise<Transaction[]> {
+  return selectConfirmedInRange(chatId, range, "*");
+}
 
+export async function getTransactionById(chatId: number, transactionId: number): Promise<Transaction | null> {
   const { data, error } = await supabase
     .from("transactions")
     .select("*")
+    .eq("id", transactionId)
     .eq("chat_id", chatId)
-    .gte("created_at", todayISO)
-    .order("created_at", { ascending: true });
+    .is("deleted_at", null)
+    .maybeSingle();
 
   if (error) throw error;
-  return data ?? [];
+  return data;
 }
 
-export async function clearTodayTransactions(chatId: number): Promise<number> {
-  const todayISO = getStartOfTodayISO();
+/** Soft-delete transactions and log each deletion; one batch is undone together by /desfazer */
+async function softDeleteTransactions(chatId: number, transactions: Transaction[], actor: Actor): Promise<void> {
+  if (transactions.length === 0) return;
+  await assertShiftsOpen(transactions);
+
+  const deletedAt = new Date().toISOString();
+  for (let i = 0; i < transactions.length; i += IDS_PER_REQUEST) {
+    const { error } = await supabase
+      .from("transactions")
+      .update({ deleted_at: deletedAt })
+      .eq("chat_id", chatId)
+      .in("id", transactions.slice(i, i + IDS_PER_REQUEST).map((t) => t.id!));
+
+    if (error) throw error;
+  }
+
+  await recordAudit(
+    chatId,
+    actor,
+    "delete",
+    transactions.map((t) => ({
+      transactionId: t.id!,
+      oldValues: { deleted_at: null },
+      newValues: { deleted_at: deletedAt },
+    })),
+    newBatchId()
+  );
+}
+
+/** Change some fields of a transaction and log the old and new values */
+export async function updateTransaction(
+  chatId: number,
+  transaction: Transaction,
+  changes: Partial<Transaction>,
+  actor: Actor
+): Promise<Transaction> {
+  await assertShiftsOpen([transaction]);
+
+  // A new client name moves the transaction to that name's client
+  if (changes.client_name !== undefined) {
+    changes = { ...changes, client_id: await resolveClientId(chatId, changes.client_name) };
+  }
 
   const { data, error } = await supabase
     .from("transactions")
-    .delete()
+    .update(changes)
+    .eq("id", transaction.id)
     .eq("chat_id", chatId)
-    .gte("created_at", todayISO)
-    .select();
+    .select()
+    .single();
 
   if (error) throw error;
-  return data?.length ?? 0;
+
+  const fields = Object.keys(changes) as (keyof Transaction)[];
+  await recordAudit(chatId, actor, "update", [
+    {
+      transactionId: transaction.id!,
+      oldValues: Object.fromEntries(fields.map((f) => [f, transaction[f] ?? null])),
+      newValues: Object.fromEntries(fields.map((f) => [f, changes[f] ?? null])),
+    },
+  ]);
+
+  return data;
 }
 
-export async function deleteTransactionByIndex(chatId: number, index?: number): Promise<Transaction | null> {
-  const todayISO = getStartOfTodayISO();
+/** Every transaction of a range, pending ones included, as /limpar removes them */
+export async function getTransactionsToClear(chatId: number, range: DateRange): Promise<Transaction[]> {
+  const rows: Transaction[] = [];
+
+  for (let offset = 0; ; offset += MAX_ROWS_PER_REQUEST) {
+    const { data, error } = await supabase
+      .from("transactions")
+      .select("*")
+      .eq("chat_id", chatId)
+      .is("deleted_at", null)
+      .gte("created_at", range.start.toISOString())
+      .lt("created_at", range.end.toISOString())
+      .order("id", { ascending: true })
+      .range(offset, offset + MAX_ROWS_PER_REQUEST - 1);
+
+    if (error) throw error;
+    rows.push(...(data ?? []));
+    if (!data || data.length < MAX_ROWS_PER_REQUEST) return rows;
+  }
+}
 
-  // Get all today's transactions ordered by time (ascending, like /hoje shows)
-  const { data: transactions } = await supabase
-    .from("transactions")
-    .select("*")
-    .eq("chat_id", chatId)
-    .gte("created_at", todayISO)
-    .order("created_at", { ascending: true });
+export async function clearTransactions(chatId: number, range: DateRange, actor: Actor): Promise<number> {
+  const transactions = await getTransactionsToClear(chatId, range);
+  await softDeleteTransactions(chatId, transactions, actor);
+  return transactions.length;
+}
+
+export async function deleteTransactionByIndex(
+  chatId: number,
+  range: DateRange,
+  index: number | undefined,
+  actor: Actor
+): Promise<Transaction | null> {
+  // Get the range's transactions ordered by time (ascending, like /hoje shows)
+  const transactions = await getTransactions(chatId, range);
 
-  if (!transactions || transactions.length === 0) return null;
+  if (transactions.length === 0) return null;
 
   // If no index provided, delete the last one (most recent)
   // If index provided, it's 1-based (matching /hoje display)
@@ -124,39 +365,108 @@ export async function deleteTransactionByIndex(chatId: number, index?: number):
   if (targetIndex < 0 || targetIndex >= transactions.length) return null;
 
   const targetTx = transactions[targetIndex];
-
-  // Delete it
-  await supabase
-    .from("transactions")
-    .delete()
-    .eq("id", targetTx.id);
+  await softDeleteTransactions(chatId, [targetTx], actor);
 
   return targetTx;
 }
 
-export async function updateLastTransactionAmount(chatId: number, newAmount: number): Promise<Transaction | null> {
-  const todayISO = getStartOfTodayISO();
-
+export async function updateLastTransactionAmount(
+  chatId: number,
+  range: DateRange,
+  newAmount: number,
+  actor: Actor
+): Promise<Transaction | null> {
   // Get the last transaction
   const { data: lastTx } = await supabase
     .from("transactions")
     .select("*")
     .eq("chat_id", chatId)
-    .gte("created_at", todayISO)
+    .eq("status", "confirmed")
+    .is("deleted_at", null)
+    .gte("created_at", range.start.toISOString())
+    .lt("created_at", range.end.toISOString())
     .order("created_at", { ascending: false })
     .limit(1)
-    .single();
+    .maybeSingle();
 
   if (!lastTx) return null;
 
-  // Update it
+  return updateTransaction(chatId, lastTx, { amount: newAmount }, actor);
+}
+
+export async function getPendingTransactions(chatId: number): Promise<Transaction[]> {
+  const { data, error } = await supabase
+    .from("transactions")
+    .select("*")
+    .eq("chat_id", chatId)
+    .eq("status", "pending")
+    .is("deleted_at", null)
+    .order("created_at", { ascending: true });
+
+  if (error) throw error;
+  return data ?? [];
+}
+
+/** Confirm a pending transaction, optionally correcting its amount */
+export async function confirmTransaction(
+  chatId: number,
+  transactionId: number,
+  actor: Actor,
+  amount?: number
+): Promise<Transaction | null> {
+  const update: Partial<Transaction> = { status: "confirmed" };
+  if (amount !== undefined) update.amount = amount;
+
+  const { data: pending } = await supabase
+    .from("transactions")
+    .select("amount, shift_id")
+    .eq("id", transactionId)
+    .eq("chat_id", chatId)
+    .maybeSingle();
+
+  if (pending) await assertShiftsOpen([pending]);
+
   const { data, error } = await supabase
     .from("transactions")
-    .update({ amount: newAmount })
-    .eq("id", lastTx.id)
+    .update(update)
+    .eq("id", transactionId)
+    .eq("chat_id", chatId)
+    .eq("status", "pending")
+    .is("deleted_at", null)
     .select()
-    .single();
+    .maybeSingle();
 
   if (error) throw error;
+
+  if (data && pending) {
+    await recordAudit(chatId, actor, "confirm", [
+      {
+        transactionId,
+        oldValues: { status: "pending", amount: pending.amount },
+        newValues: update,
+      },
+    ]);
+  }
+  return data;
+}
+
+export async function discardPendingTransaction(
+  chatId: number,
+  transactionId: number,
+  actor: Actor
+): Promise<Transaction | null> {
+  const { data, error } = await supabase
+    .from("transactions")
+    .select("*")
+    .eq("id", transactionId)
+    .eq("chat_id", chatId)
+    .eq("status", "pending")
+    .is("deleted_at", null)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) return null;
+
+  await softDeleteTransactions(chatId, [data], actor);
   return data;
 }
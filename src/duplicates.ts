@@ -0,0 +1,181 @@
+import crypto from "crypto";
+import sharp from "sharp";
+import { supabase, Transaction, MAX_ROWS_PER_REQUEST } from "./database.js";
+import { normalizeName } from "./text.js";
+
+// Max differing bits between two image hashes to consider them the same receipt
+const IMAGE_HASH_MAX_DISTANCE = 6;
+
+// How far back to compare image hashes (keeps the scan small)
+const IMAGE_HASH_LOOKBACK_DAYS = 30;
+
+export type DuplicateReason = "e2e" | "fingerprint" | "image" | "content";
+
+export interface DuplicateMatch {
+  reason: DuplicateReason;
+  transaction: Transaction;
+}
+
+export interface DuplicateCandidate {
+  e2eId: string | null;
+  fingerprint: string | null;
+  imageHash: string | null;
+  contentHash: string | null; // SHA-256 of the receipt file or the notification text
+  // Receipts from one bank app share a layout, so a similar image only counts with the same payment
+  amount: number;
+  clientName: string | null;
+}
+
+/**
+ * Perceptual difference hash (dHash) of an image, as 16 hex chars.
+ * Survives re-compression, resizing and re-screenshotting of the same receipt.
+ */
+export async function computeImageHash(buffer: Buffer): Promise<string | null> {
+  try {
+    const pixels = await sharp(buffer)
+      .greyscale()
+      .resize(9, 8, { fit: "fill" })
+      .raw()
+      .toBuffer();
+
+    let hash = 0n;
+    for (let row = 0; row < 8; row++) {
+      for (let col = 0; col < 8; col++) {
+        const left = pixels[row * 9 + col];
+        const right = pixels[row * 9 + col + 1];
+        hash = (hash << 1n) | (left > right ? 1n : 0n);
+      }
+    }
+
+    return hash.toString(16).padStart(16, "0");
+  } catch (error) {
+    console.error("Failed to compute image hash:", error);
+    return null;
+  }
+}
+
+/** Number of differing bits between two hex image hashes */
+export function hammingDistance(a: string, b: string): number {
+  let diff = BigInt(`0x${a}`) ^ BigInt(`0x${b}`);
+  let count = 0;
+  while (diff > 0n) {
+    count += Number(diff & 1n);
+    diff >>= 1n;
+  }
+  return count;
+}
+
+/**
+ * Fingerprint of payer, amount and receipt timestamp (to the minute).
+ * Returns null when the receipt has no payment time, since payer and amount alone repeat too often.
+ */
+export function computeFingerprint(
+  clientName: string | null,
+  amount: number,
+  paidAt: string | null
+): string | null {
+  if (!paidAt) return null;
+
+  const minute = new Date(paidAt).toISOString().slice(0, 16);
+  const payer = clientName ? normalizeName(clientName) : "";
+  const source = `${payer}|${amount.toFixed(2)}|${minute}`;
+
+  return crypto.createHash("sha256").update(source).digest("hex");
+}
+
+/** SHA-256 of a notification text, ignoring case and whitespace differences between copies */
+export function computeContentHash(text: string): string {
+  const normalized = text.toLowerCase().replace(/\s+/g, " ").trim();
+  return crypto.createHash("sha256").update(normalized).digest("hex");
+}
+
+/** Look for an already registered transaction that matches the same receipt content */
+export async function findDuplicate(
+  chatId: number,
+  candidate: DuplicateCandidate
+): Promise<DuplicateMatch | null> {
+  if (candidate.e2eId) {
+    const { data, error } = await supabase
+      .from("transactions")
+      .select("*")
+      .eq("chat_id", chatId)
+      .is("deleted_at", null)
+      .eq("e2e_id", candidate.e2eId)
+      .limit(1);
+
+    if (error) throw error;
+    if (data && data.length > 0) return { reason: "e2e", transaction: data[0] };
+  }
+
+  if (candidate.fingerprint) {
+    const { data, error } = await supabase
+      .from("transactions")
+      .select("*")
+      .eq("chat_id", chatId)
+      .is("deleted_at", null)
+      .eq("receipt_fingerprint", candidate.fingerprint)
+      .limit(1);
+
+    if (error) throw error;
+    if (data && data.length > 0) return { reason: "fingerprint", transaction: data[0] };
+  }
+
+  if (candidate.contentHash) {
+    const { data, error } = await supabase
+      .from("transactions")
+      .select("*")
+      .eq("chat_id", chatId)
+      .is("deleted_at", null)
+      .eq("content_hash", candidate.contentHash)
+      .limit(1);
+
+    if (error) throw error;
+    if (data && data.length > 0) return { reason: "content", transaction: data[0] };
+  }
+
+  if (candidate.imageHash) {
+    const since = new Date();
+    since.setDate(since.getDate() - IMAGE_HASH_LOOKBACK_DAYS);
+
+    const payer = candidate.clientName ? normalizeName(candidate.clientName) : null;
+
+    for (let offset = 0; ; offset += MAX_ROWS_PER_REQUEST) {
+      const { data, error } = await supabase
+        .from("transactions")
+        .select("id, image_hash, amount, client_name, created_at")
+        .eq("chat_id", chatId)
+        .is("deleted_at", null)
+        .eq("amount", candidate.amount)
+        .not("image_hash", "is", null)
+        .gte("created_at", since.toISOString())
+        .order("id", { ascending: true })
+        .range(offset, offset + MAX_ROWS_PER_REQUEST - 1);
+
+      if (error) throw error;
+
+      const match = (data as Transaction[] | null)?.find(
+        (t) =>
+          hammingDistance(t.image_hash!, candidate.imageHash!) <= IMAGE_HASH_MAX_DISTANCE &&
+          // Different payers read from both images are different payments
+          (!payer || !t.client_name || normalizeName(t.client_name) === payer)
+      );
+      if (match) return { reason: "image", transaction: match };
+      if (!data || data.length < MAX_ROWS_PER_REQUEST) break;
+    }
+  }
+
+  return null;
+}
+
+export function getDuplicateReasonLabel(reason: DuplicateReason): string {
+  switch (reason) {
+    case "e2e":
+      return "mesmo ID de transação (E2E)";
+    case "fingerprint":
+      return "mesmo pagador, valor e horário";
+    case "image":
+      return "imagem praticamente idêntica e mesmo valor";
+    case "content":
+      return "mesmo arquivo ou texto de notificação";
+  }
+}
@@ -0,0 +1,485 @@
+import JSZip from "jszip";
+import PDFDocument from "pdfkit";
+import { supabase, groupByMethod, PAYMENT_METHODS, MAX_ROWS_PER_REQUEST, Transaction } from "./database.js";
+import { formatTimeInZone, getBusinessDay, Period } from "./businessday.js";
+import { formatCurrency } from "./summary.js";
+import { formatPaymentMethod, PAYMENT_METHOD_LABELS } from "./labels.js";
+
+export type ExportFormat = "csv" | "xlsx" | "ofx" | "pdf";
+
+// /exportar <formato>
+export const EXPORT_FORMAT_ARGS: Record<string, ExportFormat> = {
+  csv: "csv",
+  xlsx: "xlsx",
+  excel: "xlsx",
+  planilha: "xlsx",
+  ofx: "ofx",
+  pdf: "pdf",
+};
+
+export interface ExportOptions {
+  period: Period;
+  shopName: string; // header of the PDF statement
+  shopDocument: string | null; // CNPJ or CPF, when registered with /recebedor
+  allChats: boolean; // admin export across chats: adds a chat column
+}
+
+export interface ExportFile {
+  data: Buffer;
+  filename: string;
+}
+
+/** One transaction as exported, in the chat's timezone */
+interface ExportRow {
+  id: number;
+  chatId: number;
+  date: string; // "dd/mm/yyyy"
+  time: string; // "HH:MM"
+  localDateTime: Date; // wall-clock time as if it were UTC, for spreadsheet dates
+  day: string; // business day, "YYYY-MM-DD"
+  amount: number;
+  method: string;
+  bank: string;
+  client: string;
+  document: string;
+  note: string;
+  source: string;
+}
+
+const SOURCE_LABELS: Record<string, string> = {
+  receipt: "Comprovante",
+  manual: "Manual",
+  notification: "Notificação",
+};
+
+/** Confirmed transactions of a period, oldest first; every chat's when chatId is null (admin) */
+export async function getExportTransactions(chatId: number | null, period: Period): Promise<Transaction[]> {
+  const rows: Transaction[] = [];
+
+  for (let from = 0; ; from += MAX_ROWS_PER_REQUEST) {
+    let query = supabase
+      .from("transactions")
+      .select("*")
+      .eq("status", "confirmed")
+      .is("deleted_at", null)
+      .gte("created_at", period.start.toISOString())
+      .lt("created_at", period.end.toISOString());
+
+    if (chatId !== null) query = query.eq("chat_id", chatId);
+
+    const { data, error } = await query
+      .order("created_at", { ascending: true })
+      .order("id", { ascending: true })
+      .range(from, from + MAX_ROWS_PER_REQUEST - 1);
+
+    if (error) throw error;
+    rows.push(...(data ?? []));
+    if (!data || data.length < MAX_ROWS_PER_REQUEST) return rows;
+  }
+}
+
+function toExportRow(t: Transaction, period: Period): ExportRow {
+  const { timeZone } = period.settings;
+  const createdAt = new Date(t.created_at!);
+  // "2026-10-19 14:32:05" in the chat's timezone
+  const local = createdAt.toLocaleString("sv-SE", { timeZone });
+
+  return {
+    id: t.id!,
+    chatId: t.chat_id,
+    date: createdAt.toLocaleDateString("pt-BR", { timeZone }),
+    time: formatTimeInZone(createdAt, timeZone),
+    localDateTime: new Date(`${local.replace(" ", "T")}Z`),
+    day: getBusinessDay(period.settings, createdAt).date,
+    amount: t.amount,
+    method: formatPaymentMethod(t),
+    bank: t.payer_bank || t.bank_detected || "",
+    client: t.client_name || "",
+    document: t.payer_document || "",
+    note: t.note || "",
+    source: SOURCE_LABELS[t.source ?? "receipt"],
+  };
+}
+
+/** Totals per business day, in order */
+function groupByDay(rows: ExportRow[]): { day: string; rows: ExportRow[]; total: number }[] {
+  const days = new Map<string, ExportRow[]>();
+  for (const row of rows) {
+    days.set(row.day, [...(days.get(row.day) ?? []), row]);
+  }
+
+  return [...days.entries()].map(([day, dayRows]) => ({
+    day,
+    rows: dayRows,
+    total: dayRows.reduce((sum, r) => sum + r.amount, 0),
+  }));
+}
+
+const formatDayLabel = (day: string) => `${day.slice(8)}/${day.slice(5, 7)}/${day.slice(0, 4)}`;
+
+function getColumns(allChats: boolean): { header: string; value: (row: ExportRow) => string | number }[] {
+  return [
+    ...(allChats ? [{ header: "Chat", value: (r: ExportRow) => r.chatId }] : []),
+    { header: "Data", value: (r) => r.date },
+    { header: "Hora", value: (r) => r.time },
+    { header: "Valor", value: (r) => r.amount },
+    { header: "Forma", value: (r) => r.method },
+    { header: "Banco", value: (r) => r.bank },
+    { header: "Cliente", value: (r) => r.client },
+    { header: "Documento", value: (r) => r.document },
+    { header: "Nota", value: (r) => r.note },
+    { header: "Origem", value: (r) => r.source },
+    { header: "ID", value: (r) => r.id },
+  ];
+}
+
+/** Quote every field; a leading =, +, - or @ is neutralized so spreadsheets don't run it as a formula */
+export function escapeCsv(value: string | number): string {
+  let text = typeof value === "number" ? String(value) : value;
+  if (/^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+  return `"${text.replace(/"/g, '""')}"`;
+}
+
+function buildCsv(rows: ExportRow[], options: ExportOptions): Buffer {
+  const columns = getColumns(options.allChats);
+  const lines = [
+    columns.map((c) => escapeCsv(c.header)).join(","),
+    ...rows.map((row) =>
+      columns
+        .map((c) => {
+          const value = c.value(row);
+          // Brazilian decimal comma, as spreadsheets in pt-BR expect
+          return escapeCsv(c.header === "Valor" ? (value as number).toFixed(2).replace(".", ",") : value);
+        })
+        .join(",")
+    ),
+  ];
+
+  // BOM so Excel opens the file as UTF-8
+  return Buffer.from(`\uFEFF${lines.join("\r\n")}\r\n`, "utf-8");
+}
+
+// Cell styles defined in XLSX_STYLES
+const STYLE_CURRENCY = 1;
+const STYLE_DATE_TIME = 2;
+const STYLE_BOLD = 3;
+
+const XLSX_STYLES = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">
+<numFmts count="2"><numFmt numFmtId="164" formatCode="&quot;R$&quot; #,##0.00"/><numFmt numFmtId="165" formatCode="dd/mm/yyyy hh:mm"/></numFmts>
+<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>
+<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>
+<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>
+<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>
+<cellXfs count="4">
+<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>
+<xf numFmtId="164" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>
+<xf numFmtId="165" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>
+<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/>
+</cellXfs>
+</styleSheet>`;
+
+type XlsxCell = { value: string | number | Date; style?: number } | null;
+
+function escapeXml(text: string): string {
+  return text.replace(/[&<>"']/g, (c) => `&#${c.charCodeAt(0)};`).replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, "");
+}
+
+function columnName(index: number): string {
+  let name = "";
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+}
+
+/** Days since 1899-12-30, as spreadsheets store dates */
+function toSerialDate(date: Date): number {
+  return date.getTime() / 86_400_000 + 25_569;
+}
+
+function buildSheet(rows: XlsxCell[][]): string {
+  const xmlRows = rows.map((cells, r) => {
+    const xmlCells = cells.map((cell, c) => {
+      if (!cell) return "";
+      const ref = `${columnName(c)}${r + 1}`;
+      const style = cell.style ? ` s="${cell.style}"` : "";
+      if (cell.value instanceof Date) return `<c r="${ref}"${style}><v>${toSerialDate(cell.value)}</v></c>`;
+      if (typeof cell.value === "number") return `<c r="${ref}"${style}><v>${cell.value}</v></c>`;
+      return `<c r="${ref}" t="inlineStr"${style}><is><t xml:space="preserve">${escapeXml(cell.value)}</t></is></c>`;
+    });
+    return `<row r="${r + 1}">${xmlCells.join("")}</row>`;
+  });
+
+  return (
+    `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>` +
+    `<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">` +
+    `<sheetData>${xmlRows.join("")}</sheetData></worksheet>`
+  );
+}
+
+/** Workbook with the transactions and a totals sheet (per day and per payment method) */
+async function buildXlsx(rows: ExportRow[], transactions: Transaction[], options: ExportOptions): Promise<Buffer> {
+  const bold = (value: string): XlsxCell => ({ value, style: STYLE_BOLD });
+  const currency = (value: number): XlsxCell => ({ value, style: STYLE_CURRENCY });
+
+  // The date and time columns become one spreadsheet date
+  const columns = getColumns(options.allChats).filter((c) => c.header !== "Hora");
+  const transactionSheet: XlsxCell[][] = [
+    columns.map((c) => bold(c.header)),
+    ...rows.map((row) =>
+      columns.map((c): XlsxCell => {
+        if (c.header === "Data") return { value: row.localDateTime, style: STYLE_DATE_TIME };
+        if (c.header === "Valor") return currency(row.amount);
+        return { value: c.value(row) };
+      })
+    ),
+  ];
+
+  const total = rows.reduce((sum, r) => sum + r.amount, 0);
+  const byMethod = groupByMethod(transactions);
+  const totalsSheet: XlsxCell[][] = [
+    [bold(`Período: ${options.period.label}`)],
+    [],
+    [bold("Total"), currency(total)],
+    [bold("Vendas"), { value: rows.length }],
+    [bold("Ticket médio"), currency(rows.length > 0 ? total / rows.length : 0)],
+    [],
+    [bold("Dia"), bold("Vendas"), bold("Total")],
+    ...groupByDay(rows).map((d) => [{ value: formatDayLabel(d.day) }, { value: d.rows.length }, currency(d.total)]),
+    [],
+    [bold("Forma de pagamento"), bold("Vendas"), bold("Total")],
+    ...PAYMENT_METHODS.filter((m) => byMethod[m]).map((m) => [
+      { value: PAYMENT_METHOD_LABELS[m] },
+      { value: byMethod[m]!.count },
+      currency(byMethod[m]!.total),
+    ]),
+  ];
+
+  const zip = new JSZip();
+  zip.file(
+    "[Content_Types].xml",
+    `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+<Default Extension="xml" ContentType="application/xml"/>
+<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>
+<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>
+<Override PartName="/xl/worksheets/sheet2.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>
+<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>
+</Types>`
+  );
+  zip.file(
+    "_rels/.rels",
+    `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>
+</Relationships>`
+  );
+  zip.file(
+    "xl/workbook.xml",
+    `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">
+<sheets><sheet name="Transações" sheetId="1" r:id="rId1"/><sheet name="Totais" sheetId="2" r:id="rId2"/></sheets>
+</workbook>`
+  );
+  zip.file(
+    "xl/_rels/workbook.xml.rels",
+    `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>
+<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet2.xml"/>
+<Relationship Id="rId3" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>
+</Relationships>`
+  );
+  zip.file("xl/styles.xml", XLSX_STYLES);
+  zip.file("xl/worksheets/sheet1.xml", buildSheet(transactionSheet));
+  zip.file("xl/worksheets/sheet2.xml", buildSheet(totalsSheet));
+
+  return zip.generateAsync({ type: "nodebuffer", compression: "DEFLATE" });
+}
+
+/** "20261019143205[0:GMT]" */
+function formatOfxDate(date: Date): string {
+  return `${date.toISOString().replace(/[-:T]/g, "").slice(0, 14)}[0:GMT]`;
+}
+
+/** OFX 1.02 (SGML) is read by most finance software; its charset is Windows-1252 */
+function escapeOfx(text: string, maxLength: number): string {
+  return text
+    .replace(/[^\x20-\xFF]/g, " ")
+    .trim()
+    .slice(0, maxLength)
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;");
+}
+
+/** Bank statement with every sale as a credit, for finance software */
+function buildOfx(transactions: Transaction[], options: ExportOptions, accountId: string): Buffer {
+  const total = transactions.reduce((sum, t) => sum + t.amount, 0);
+  const entries = transactions.map((t) => {
+    const memo = [formatPaymentMethod(t), t.payer_bank || t.bank_detected, t.note].filter(Boolean).join(" - ");
+    return [
+      "<STMTTRN>",
+      "<TRNTYPE>CREDIT",
+      `<DTPOSTED>${formatOfxDate(new Date(t.paid_at || t.created_at!))}`,
+      `<TRNAMT>${t.amount.toFixed(2)}`,
+      `<FITID>${t.id}`,
+      `<NAME>${escapeOfx(t.client_name || formatPaymentMethod(t), 32)}`,
+      `<MEMO>${escapeOfx(memo, 255)}`,
+      "</STMTTRN>",
+    ].join("\n");
+  });
+
+  const now = formatOfxDate(new Date());
+  const ofx = [
+    "OFXHEADER:100",
+    "DATA:OFXSGML",
+    "VERSION:102",
+    "SECURITY:NONE",
+    "ENCODING:USASCII",
+    "CHARSET:1252",
+    "COMPRESSION:NONE",
+    "OLDFILEUID:NONE",
+    "NEWFILEUID:NONE",
+    "",
+    "<OFX>",
+    "<SIGNONMSGSRSV1><SONRS>",
+    "<STATUS><CODE>0<SEVERITY>INFO</STATUS>",
+    `<DTSERVER>${now}`,
+    "<LANGUAGE>POR",
+    "</SONRS></SIGNONMSGSRSV1>",
+    "<BANKMSGSRSV1><STMTTRNRS>",
+    "<TRNUID>1",
+    "<STATUS><CODE>0<SEVERITY>INFO</STATUS>",
+    "<STMTRS>",
+    "<CURDEF>BRL",
+    `<BANKACCTFROM><BANKID>0000<ACCTID>${accountId}<ACCTTYPE>CHECKING</BANKACCTFROM>`,
+    "<BANKTRANLIST>",
+    `<DTSTART>${formatOfxDate(options.period.start)}`,
+    `<DTEND>${formatOfxDate(options.period.end)}`,
+    ...entries,
+    "</BANKTRANLIST>",
+    `<LEDGERBAL><BALAMT>${total.toFixed(2)}<DTASOF>${formatOfxDate(options.period.end)}</LEDGERBAL>`,
+    "</STMTRS>",
+    "</STMTTRNRS></BANKMSGSRSV1>",
+    "</OFX>",
+    "",
+  ].join("\r\n");
+
+  return Buffer.from(ofx, "latin1");
+}
+
+/** Statement: the shop's header, transactions grouped by day with subtotals, and the totals */
+function buildPdf(rows: ExportRow[], transactions: Transaction[], options: ExportOptions): Promise<Buffer> {
+  const doc = new PDFDocument({ size: "A4", margin: 40, info: { Title: `Extrato ${options.period.label}` } });
+  const chunks: Buffer[] = [];
+  doc.on("data", (chunk: Buffer) => chunks.push(chunk));
+  const finished = new Promise<Buffer>((resolve) => doc.on("end", () => resolve(Buffer.concat(chunks))));
+
+  const left = doc.page.margins.left;
+  const right = doc.page.width - doc.page.margins.right;
+  const rowHeight = 16;
+  const columns = [
+    ...(options.allChats ? [{ header: "Chat", width: 75, value: (r: ExportRow) => String(r.chatId) }] : []),
+    { header: "Hora", width: 40, value: (r: ExportRow) => r.time },
+    { header: "Forma", width: 85, value: (r: ExportRow) => r.method },
+    { header: "Cliente", width: options.allChats ? 130 : 180, value: (r: ExportRow) => r.client },
+    { header: "Banco", width: 100, value: (r: ExportRow) => r.bank },
+  ];
+  const amountWidth = right - left - columns.reduce((sum, c) => sum + c.width, 0);
+
+  const ensureSpace = (height: number) => {
+    if (doc.y + height > doc.page.height - doc.page.margins.bottom) {
+      doc.addPage();
+    }
+  };
+
+  // One row: a cell per column, or a single label across them (subtotals and totals)
+  const line = (cells: string[] | string, amount: string, font: string = "Helvetica") => {
+    ensureSpace(rowHeight);
+    const y = doc.y;
+    doc.font(font).fontSize(9);
+    let x = left;
+    if (typeof cells === "string") {
+      doc.text(cells, x, y, { width: right - left - amountWidth, lineBreak: false });
+      x = right - amountWidth;
+    } else {
+      cells.forEach((cell, i) => {
+        doc.text(cell, x, y, { width: columns[i].width - 6, height: rowHeight, ellipsis: true, lineBreak: false });
+        x += columns[i].width;
+      });
+    }
+    doc.text(amount, x, y, { width: amountWidth, align: "right", lineBreak: false });
+    doc.x = left;
+    doc.y = y + rowHeight;
+  };
+
+  // Header
+  doc.font("Helvetica-Bold").fontSize(16).text(options.shopName);
+  if (options.shopDocument) doc.font("Helvetica").fontSize(10).text(options.shopDocument);
+  doc.moveDown(0.3);
+  doc.font("Helvetica").fontSize(11).text(`Extrato de vendas - ${options.period.label}`);
+  doc
+    .fontSize(8)
+    .fillColor("#666666")
+    .text(`Gerado em ${new Date().toLocaleString("pt-BR", { timeZone: options.period.settings.timeZone })}`)
+    .fillColor("#000000");
+  doc.moveDown();
+
+  line(columns.map((c) => c.header), "Valor", "Helvetica-Bold");
+  doc.moveTo(left, doc.y - 3).lineTo(right, doc.y - 3).strokeColor("#999999").stroke();
+
+  for (const day of groupByDay(rows)) {
+    ensureSpace(rowHeight * 3);
+    doc.moveDown(0.4);
+    doc.font("Helvetica-Bold").fontSize(10).text(formatDayLabel(day.day), left);
+    doc.moveDown(0.2);
+
+    for (const row of day.rows) {
+      line(columns.map((c) => c.value(row)), formatCurrency(row.amount));
+    }
+
+    line(`Subtotal (${day.rows.length})`, formatCurrency(day.total), "Helvetica-Bold");
+  }
+
+  // Totals
+  const total = rows.reduce((sum, r) => sum + r.amount, 0);
+  const byMethod = groupByMethod(transactions);
+  ensureSpace(rowHeight * (PAYMENT_METHODS.length + 4));
+  doc.moveDown();
+  doc.moveTo(left, doc.y).lineTo(right, doc.y).strokeColor("#999999").stroke();
+  doc.moveDown(0.5);
+  for (const method of PAYMENT_METHODS.filter((m) => byMethod[m])) {
+    const stats = byMethod[method]!;
+    line(`${PAYMENT_METHOD_LABELS[method]} (${stats.count})`, formatCurrency(stats.total));
+  }
+  line(`Total (${rows.length})`, formatCurrency(total), "Helvetica-Bold");
+
+  doc.end();
+  return finished;
+}
+
+/** The export file of a set of transactions in a format */
+export async function buildExport(
+  format: ExportFormat,
+  transactions: Transaction[],
+  options: ExportOptions,
+  accountId: string // OFX account: the chat id
+): Promise<ExportFile> {
+  const rows = transactions.map((t) => toExportRow(t, options.period));
+  const { from, to } = options.period;
+  const name = `transacoes_${from === to ? from : `${from}_${to}`}`;
+
+  switch (format) {
+    case "xlsx":
+      return { data: await buildXlsx(rows, transactions, options), filename: `${name}.xlsx` };
+    case "ofx":
+      return { data: buildOfx(transactions, options, accountId), filename: `${name}.ofx` };
+    case "pdf":
+      return { data: await buildPdf(rows, transactions, options), filename: `${name}.pdf` };
+    default:
+      return { data: buildCsv(rows, options), filename: `${name}.csv` };
+  }
+}
@@ -0,0 +1,110 @@
+import { PaymentMethod } from "./database.js";
+
+export type MediaType = "image/jpeg" | "image/png" | "image/webp" | "image/gif" | "application/pdf";
+
+export type Confidence = "high" | "medium" | "low";
+
+/** Extraction engines, in the names used by EXTRACTION_ENGINES */
+export type EngineName = "claude" | "local";
+
+/** One payment found in a document */
+export interface ExtractedReceipt {
+  amount: number | null;
+  bank: string | null;
+  clientName: string | null;
+  e2eId: string | null;
+  paidAt: string | null; // ISO 8601, as printed on the receipt
+  receiverName: string | null;
+  receiverInstitution: string | null;
+  receiverKey: string | null; // PIX key as printed, possibly masked
+  receiverDocument: string | null; // receiver CPF/CNPJ as printed, possibly masked
+  payerDocument: string | null; // masked CPF/CNPJ, e.g. "***.456.789-**"
+  payerBank: string | null;
+  paymentMethod: PaymentMethod;
+  cardBrand: string | null; // card slips only, e.g. "Visa"
+  installments: number | null; // card slips only, 1 for à vista
+  isScheduled: boolean; // "agendado": not settled yet
+  confidence: Confidence;
+  confidenceReasons: string[]; // e.g. "imagem borrada", "valor cortado"
+  candidateAmounts: number[]; // other values that could be the paid amount
+}
+
+/** One engine/model call made while extracting a file, for cost accounting */
+export interface ExtractionCall {
+  engine: EngineName;
+  model: string | null; // null for the local engine
+  inputTokens: number;
+  outputTokens: number;
+  latencyMs: number;
+  success: boolean;
+}
+
+/**
+ * Extraction output. The top-level fields mirror the first receipt found;
+ * `receipts` holds every payment when one image shows several (e.g. a transaction list).
+ */
+export interface ExtractionResult extends ExtractedReceipt {
+  receipts: ExtractedReceipt[];
+  engine: EngineName;
+  calls: ExtractionCall[];
+  rawResponse: string;
+  error?: string;
+  apiFailed?: boolean; // some engine could not be reached, so a later retry may do better
+}
+
+/** A way of turning a receipt file into structured data */
+export interface Extractor {
+  name: EngineName;
+  extract(base64Data: string, mediaType: MediaType): Promise<ExtractionResult>;
+}
+
+export const EMPTY_RECEIPT: ExtractedReceipt = {
+  amount: null,
+  bank: null,
+  clientName: null,
+  e2eId: null,
+  paidAt: null,
+  receiverName: null,
+  receiverInstitution: null,
+  receiverKey: null,
+  receiverDocument: null,
+  payerDocument: null,
+  payerBank: null,
+  paymentMethod: "pix",
+  cardBrand: null,
+  installments: null,
+  isScheduled: false,
+  confidence: "low",
+  confidenceReasons: [],
+  candidateAmounts: [],
+};
+
+export function buildResult(
+  engine: EngineName,
+  receipts: ExtractedReceipt[],
+  rawResponse: string,
+  error?: string
+): ExtractionResult {
+  return {
+    ...(receipts[0] ?? EMPTY_RECEIPT),
+    receipts,
+    engine,
+    calls: [],
+    rawResponse,
+    error,
+  };
+}
+
+/** Normalize an end-to-end ID: uppercase, no whitespace, null if clearly not an E2E */
+export function normalizeE2eId(value: unknown): string | null {
+  if (typeof value !== "string") return null;
+  const id = value.replace(/\s+/g, "").toUpperCase();
+  return /^[A-Z0-9]{20,40}$/.test(id) ? id : null;
+}
+
+/** Validate the receipt timestamp and return it as an ISO string */
+export function normalizePaidAt(value: unknown): string | null {
+  if (typeof value !== "string" || !value) return null;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date.toISOString();
+}
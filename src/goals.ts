@@ -0,0 +1,219 @@
+import { supabase, getStats, getTransactions } from "./database.js";
+import {
+  addDays,
+  getBusinessDay,
+  getDaySettings,
+  getMonthPeriod,
+  getRangePeriod,
+  BusinessDay,
+  DaySettings,
+} from "./businessday.js";
+import { formatCurrency } from "./summary.js";
+
+/** Revenue goals of a chat (/meta), stored in sales_goals */
+export interface SalesGoals {
+  chat_id: number;
+  daily_goal: number | null;
+  monthly_goal: number | null;
+  // Highest milestone already announced, and for which day or month, so each fires once
+  daily_milestone: number;
+  daily_milestone_day: string | null; // "YYYY-MM-DD"
+  monthly_milestone: number;
+  monthly_milestone_month: string | null; // first day of the month, "YYYY-MM-01"
+}
+
+export type GoalKind = "daily" | "monthly";
+
+// Percentages of the goal announced once per day or month
+const MILESTONES = [50, 100, 150];
+
+const MILESTONE_MESSAGES: Record<GoalKind, Record<number, string>> = {
+  daily: {
+    50: "🚀 Metade da meta do dia!",
+    100: "🎉 Meta do dia batida!",
+    150: "🔥 150% da meta do dia!",
+  },
+  monthly: {
+    50: "🚀 Metade da meta do mês!",
+    100: "🏆 Meta do mês batida!",
+    150: "🔥 150% da meta do mês!",
+  },
+};
+
+const PROGRESS_BAR_SIZE = 10;
+
+// How far back the streak of days that met the goal is counted
+const MAX_STREAK_DAYS = 366;
+const STREAK_CHUNK_DAYS = 31;
+
+export async function getGoals(chatId: number): Promise<SalesGoals | null> {
+  const { data } = await supabase.from("sales_goals").select("*").eq("chat_id", chatId).maybeSingle();
+
+  return data;
+}
+
+/** Set or clear (null) a goal; the milestones of the current day or month start over */
+export async function setGoal(chatId: number, kind: GoalKind, amount: number | null): Promise<SalesGoals> {
+  const changes =
+    kind === "daily"
+      ? { daily_goal: amount, daily_milestone: 0, daily_milestone_day: null }
+      : { monthly_goal: amount, monthly_milestone: 0, monthly_milestone_month: null };
+
+  const { data, error } = await supabase
+    .from("sales_goals")
+    .upsert({ chat_id: chatId, ...changes, updated_at: new Date().toISOString() }, { onConflict: "chat_id" })
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+/** "▓▓▓▓▓▓░░░░ 60%" */
+export function formatProgressBar(value: number, goal: number): string {
+  const percent = Math.floor((value / goal) * 100);
+  const filled = Math.min(PROGRESS_BAR_SIZE, Math.floor((value / goal) * PROGRESS_BAR_SIZE));
+  return `${"▓".repeat(filled)}${"░".repeat(PROGRESS_BAR_SIZE - filled)} ${percent}%`;
+}
+
+function formatProgress(label: string, value: number, goal: number): string {
+  const left = goal - value;
+  const status = left > 0 ? `faltam ${formatCurrency(left)}` : `meta de ${formatCurrency(goal)} batida`;
+  return `${label}: ${formatProgressBar(value, goal)} - ${status}`;
+}
+
+/**
+ * Record that a milestone was announced; false when it (or a higher one) already was for this
+ * day or month, also by a receipt processed at the same time.
+ */
+async function claimMilestone(chatId: number, kind: GoalKind, key: string, milestone: number): Promise<boolean> {
+  const [milestoneColumn, keyColumn] =
+    kind === "daily" ? ["daily_milestone", "daily_milestone_day"] : ["monthly_milestone", "monthly_milestone_month"];
+
+  const { data } = await supabase
+    .from("sales_goals")
+    .update({ [milestoneColumn]: milestone, [keyColumn]: key })
+    .eq("chat_id", chatId)
+    .or(`${keyColumn}.is.null,${keyColumn}.neq.${key},${milestoneColumn}.lt.${milestone}`)
+    .select("chat_id");
+
+  return (data?.length ?? 0) > 0;
+}
+
+/** The highest milestone reached, if it wasn't announced yet */
+async function getNewMilestone(
+  chatId: number,
+  kind: GoalKind,
+  key: string,
+  value: number,
+  goal: number
+): Promise<string | null> {
+  const reached = MILESTONES.filter((m) => value >= (goal * m) / 100).pop();
+  if (!reached) return null;
+  return (await claimMilestone(chatId, kind, key, reached)) ? MILESTONE_MESSAGES[kind][reached] : null;
+}
+
+/**
+ * Lines for the running total: progress towards the daily and monthly goals, and the
+ * 50/100/150% milestones the last sale reached. Empty when the chat has no goals.
+ */
+export async function getGoalProgressLines(chatId: number, todayTotal: number, today: BusinessDay): Promise<string[]> {
+  const goals = await getGoals(chatId);
+  if (!goals || (!goals.daily_goal && !goals.monthly_goal)) return [];
+
+  const lines: string[] = [];
+  const milestones: string[] = [];
+
+  if (goals.daily_goal) {
+    lines.push(formatProgress("🎯 Meta do dia", todayTotal, goals.daily_goal));
+    const milestone = await getNewMilestone(chatId, "daily", today.date, todayTotal, goals.daily_goal);
+    if (milestone) milestones.push(milestone);
+  }
+
+  if (goals.monthly_goal) {
+    const settings = await getDaySettings(chatId);
+    const month = getMonthPeriod(settings, parseInt(today.date.slice(0, 4), 10), parseInt(today.date.slice(5, 7), 10));
+    const { total } = await getStats(chatId, month);
+    lines.push(formatProgress("🗓️ Meta do mês", total, goals.monthly_goal));
+    const milestone = await getNewMilestone(chatId, "monthly", month.from, total, goals.monthly_goal);
+    if (milestone) milestones.push(milestone);
+  }
+
+  return milestones.length > 0 ? [...lines, "", ...milestones] : lines;
+}
+
+/** Consecutive business days up to and including a date whose total met the daily goal */
+export async function getGoalStreak(chatId: number, settings: DaySettings, date: string, goal: number): Promise<number> {
+  let streak = 0;
+
+  for (let to = date; streak < MAX_STREAK_DAYS; to = addDays(to, -STREAK_CHUNK_DAYS)) {
+    const from = addDays(to, -(STREAK_CHUNK_DAYS - 1));
+    const byDay = new Map<string, number>();
+    for (const t of await getTransactions(chatId, getRangePeriod(settings, from, to))) {
+      const day = getBusinessDay(settings, new Date(t.created_at!)).date;
+      byDay.set(day, (byDay.get(day) ?? 0) + t.amount);
+    }
+
+    for (let day = to; day >= from; day = addDays(day, -1)) {
+      if ((byDay.get(day) ?? 0) < goal) return streak;
+      streak++;
+    }
+  }
+
+  return streak;
+}
+
+/** End-of-day lines: whether the daily goal was met and the streak of days that met it */
+export async function getDailyGoalResult(chatId: number, date: string, total: number): Promise<string[]> {
+  const goals = await getGoals(chatId);
+  if (!goals?.daily_goal) return [];
+
+  const percent = Math.floor((total / goals.daily_goal) * 100);
+  if (total < goals.daily_goal) {
+    return [`🎯 Meta do dia não batida: ${percent}% (faltaram ${formatCurrency(goals.daily_goal - total)})`];
+  }
+
+  const streak = await getGoalStreak(chatId, await getDaySettings(chatId), date, goals.daily_goal);
+  const days = streak === 1 ? "dia" : "dias seguidos";
+  return [`🎯 Meta do dia batida: ${percent}% ✅`, `🔥 Sequência: ${streak} ${days}`];
+}
+
+export async function getGoalsMessage(chatId: number): Promise<string> {
+  const goals = await getGoals(chatId);
+  const settings = await getDaySettings(chatId);
+  const today = getBusinessDay(settings);
+
+  const lines = ["🎯 Metas de faturamento", ""];
+
+  if (goals?.daily_goal) {
+    const { total } = await getStats(chatId, today);
+    lines.push(`Diária: ${formatCurrency(goals.daily_goal)}`, formatProgress("Hoje", total, goals.daily_goal));
+
+    // The day in progress may still meet the goal; the streak counts from yesterday until it does
+    const from = total >= goals.daily_goal ? today.date : addDays(today.date, -1);
+    const streak = await getGoalStreak(chatId, settings, from, goals.daily_goal);
+    if (streak > 0) lines.push(`🔥 Sequência: ${streak} ${streak === 1 ? "dia" : "dias seguidos"}`);
+  } else {
+    lines.push("Diária: não definida");
+  }
+
+  lines.push("");
+
+  if (goals?.monthly_goal) {
+    const month = getMonthPeriod(settings, parseInt(today.date.slice(0, 4), 10), parseInt(today.date.slice(5, 7), 10));
+    const { total } = await getStats(chatId, month);
+    lines.push(`Mensal: ${formatCurrency(goals.monthly_goal)}`, formatProgress("Este mês", total, goals.monthly_goal));
+  } else {
+    lines.push("Mensal: não definida");
+  }
+
+  lines.push(
+    "",
+    "Configure com:",
+    "/meta dia 1.000,00",
+    "/meta mes 25.000,00",
+    "/meta dia off (remover)"
+  );
+
+  return lines.join("\n");
+}
@@ -1,7 +1,11 @@
 import { createBot } from "./bot.js";
-import { getDailySummaryMessage } from "./summary.js";
 import { handlePaymentWebhook, validateWebhookSignature } from "./payments.js";
 import { resetMonthlyUsage, PLANS } from "./subscription.js";
+import { DEFAULT_TIMEZONE } from "./businessday.js";
+import { DATA_RETENTION_MONTHS, purgeExpiredData } from "./privacy.js";
+import { checkSchemaVersion } from "./schema.js";
+import { ensureDailySchedule, sendDueSummaries } from "./schedules.js";
+import { assignMissingClients } from "./clients.js";
 import { webhookCallback } from "grammy";
 import cron from "node-cron";
 import http from "http";
@@ -30,30 +34,44 @@ const BUILD_VERSION = "v2.2.0-auto-cleanup";
 async function main() {
   console.log(`Starting PIX Totalizer bot... (${BUILD_VERSION})`);
 
+  // Refuse to run against a database missing columns or tables this code uses
+  try {
+    const version = await checkSchemaVersion();
+    console.log(`Database schema version ${version}`);
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+
   const bot = await createBot(TELEGRAM_BOT_TOKEN);
 
-  // Schedule daily summary at 23:59 BRT
-  cron.schedule(
-    "59 23 * * *",
-    async () => {
-      console.log("Sending daily summary...");
-      if (ADMIN_CHAT_ID) {
-        try {
-          const chatId = parseInt(ADMIN_CHAT_ID, 10);
-          const message = await getDailySummaryMessage(chatId);
-          await bot.api.sendMessage(chatId, message);
-          console.log("Daily summary sent successfully");
-        } catch (error) {
-          console.error("Failed to send daily summary:", error);
-        }
-      }
-    },
-    {
-      timezone: "America/Sao_Paulo",
+  // The admin chat always had the end-of-day summary; keep it unless it chose otherwise
+  if (ADMIN_CHAT_ID) {
+    await ensureDailySchedule(parseInt(ADMIN_CHAT_ID, 10)).catch((error) => {
+      console.error("Failed to set up the admin daily summary:", error);
+    });
+  }
+
+  // Link transactions saved before the client directory existed, in the background
+  assignMissingClients()
+    .then((assigned) => {
+      if (assigned > 0) console.log(`[clients] Linked ${assigned} transactions to clients`);
+    })
+    .catch((error) => {
+      console.error("Failed to link transactions to clients:", error);
+    });
+
+  // Send the scheduled summaries (/resumos) that are due, every minute
+  cron.schedule("* * * * *", async () => {
+    try {
+      const sent = await sendDueSummaries(bot.api);
+      if (sent > 0) console.log(`[schedules] Sent ${sent} summaries`);
+    } catch (error) {
+      console.error("Failed to send scheduled summaries:", error);
     }
-  );
+  });
 
-  // Reset monthly usage on 1st of each month at 00:01 BRT
+  // Reset monthly usage on 1st of each month at 00:01 in the default timezone
   cron.schedule(
     "1 0 1 * *",
     async () => {
@@ -66,10 +84,30 @@ async function main() {
       }
     },
     {
-      timezone: "America/Sao_Paulo",
+      timezone: DEFAULT_TIMEZONE,
     }
   );
 
+  // Purge raw responses and receipt files past the retention period, daily at 03:30
+  if (DATA_RETENTION_MONTHS > 0) {
+    cron.schedule(
+      "30 3 * * *",
+      async () => {
+        try {
+          const purged = await purgeExpiredData();
+          console.log(
+            `[retention] Purged ${purged.transactions} transactions, ${purged.files} files, ${purged.jobs} jobs`
+          );
+        } catch (error) {
+          console.error("Failed to purge expired data:", error);
+        }
+      },
+      {
+        timezone: DEFAULT_TIMEZONE,
+      }
+    );
+  }
+
   // Create webhook handler for Telegram
   const handleTelegramWebhook = webhookCallback(bot, "http");
 
@@ -168,7 +206,7 @@ async function main() {
 
     const botInfo = await bot.api.getMe();
     console.log(`Bot @${botInfo.username} is running!`);
-    console.log("Daily summary scheduled for 23:59 BRT");
+    console.log("Scheduled summaries checked every minute");
   });
 
   // Graceful shutdown
@@ -0,0 +1,341 @@
+import { supabase } from "./database.js";
+import { formatTimeInZone, getDaySettings } from "./businessday.js";
+
+// Receipts are processed off the webhook: the update only stores a job, and a worker pool runs it
+export type JobKind = "receipt" | "album" | "notification";
+
+export type JobStatus = "queued" | "processing" | "done" | "failed";
+
+/** A photo or document to be processed as a receipt */
+export interface ReceiptFile {
+  fileId: string;
+  mimeType: string | null; // null for photos
+  messageId: number;
+}
+
+export interface JobPayload {
+  files?: ReceiptFile[]; // receipt and album jobs
+  mediaGroupId?: string; // album items, queued one by one and gathered into one job when it runs
+  text?: string; // notification jobs
+  forwardedAt?: string | null; // original date of a forwarded notification
+}
+
+export interface ReceiptJob {
+  id: number;
+  chat_id: number;
+  kind: JobKind;
+  payload: JobPayload;
+  status: JobStatus;
+  attempts: number;
+  max_attempts: number;
+  next_attempt_at: string;
+  last_error: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+const JOB_CONCURRENCY = parseInt(process.env.JOB_CONCURRENCY || "3", 10);
+const JOB_MAX_ATTEMPTS = parseInt(process.env.JOB_MAX_ATTEMPTS || "4", 10);
+const JOB_POLL_INTERVAL = 5 * 1000; // 5 seconds
+const JOB_RETRY_BASE_DELAY = 30 * 1000; // 30s, 1min, 2min, ...
+// A running job's updated_at is refreshed every heartbeat; one not refreshed within the lease
+// belongs to a process that died, and any instance may take it back
+const JOB_HEARTBEAT_INTERVAL = 60 * 1000; // 1 minute
+const JOB_LEASE_TIMEOUT = 10 * 60 * 1000; // 10 minutes
+
+export async function enqueueJob(
+  chatId: number,
+  kind: JobKind,
+  payload: JobPayload,
+  delayMs: number = 0
+): Promise<ReceiptJob> {
+  const { data, error } = await supabase
+    .from("receipt_jobs")
+    .insert({
+      chat_id: chatId,
+      kind,
+      payload,
+      max_attempts: JOB_MAX_ATTEMPTS,
+      next_attempt_at: new Date(Date.now() + delayMs).toISOString(),
+    })
+    .select()
+    .single();
+
+  if (error) throw error;
+
+  // Don't wait for the next poll when a worker slot is free
+  if (delayMs > 0) {
+    setTimeout(wakeJobWorker, delayMs);
+  } else {
+    wakeJobWorker();
+  }
+  return data;
+}
+
+/** Jobs of a chat that are not finished yet, oldest first */
+export async function getPendingJobs(chatId: number): Promise<ReceiptJob[]> {
+  const { data, error } = await supabase
+    .from("receipt_jobs")
+    .select("*")
+    .eq("chat_id", chatId)
+    .in("status", ["queued", "processing"])
+    .order("created_at", { ascending: true });
+
+  if (error) throw error;
+  return data ?? [];
+}
+
+/** Take a queued job for this worker; false if another worker got it first */
+async function claimJob(job: ReceiptJob): Promise<boolean> {
+  const { data } = await supabase
+    .from("receipt_jobs")
+    .update({ status: "processing", attempts: job.attempts + 1, updated_at: new Date().toISOString() })
+    .eq("id", job.id)
+    .eq("status", "queued")
+    .select("id");
+
+  return (data?.length ?? 0) > 0;
+}
+
+/**
+ * Albums arrive as one update per item, each queued as its own job. The first item a worker takes
+ * gathers the items still queued into its own payload, so the album is processed and answered once.
+ */
+async function collectAlbumJobs(job: ReceiptJob): Promise<ReceiptJob> {
+  if (!job.payload.mediaGroupId) return job;
+
+  try {
+    const { data: items, error } = await supabase
+      .from("receipt_jobs")
+      .select("id, payload")
+      .eq("chat_id", job.chat_id)
+      .eq("kind", "album")
+      .eq("status", "queued")
+      .eq("payload->>mediaGroupId", job.payload.mediaGroupId)
+      .neq("id", job.id);
+
+    if (error) throw error;
+    if (!items || items.length === 0) return job;
+
+    // Keep the files in this job before closing the others: if the process dies in between, the
+    // items are still queued and run again on their own, and the duplicate checks catch them
+    const files = [...(job.payload.files ?? []), ...items.flatMap((item) => item.payload.files ?? [])];
+    const payload = { ...job.payload, files };
+    const { error: payloadError } = await supabase.from("receipt_jobs").update({ payload }).eq("id", job.id);
+    if (payloadError) throw payloadError;
+
+    const { error: doneError } = await supabase
+      .from("receipt_jobs")
+      .update({ status: "done", updated_at: new Date().toISOString() })
+      .in("id", items.map((item) => item.id))
+      .eq("status", "queued");
+
+    if (doneError) throw doneError;
+    return { ...job, payload };
+  } catch (error) {
+    // The items left queued are processed as albums of their own
+    console.error(`[jobs] Failed to gather the album of job ${job.id}:`, error);
+    return job;
+  }
+}
+
+async function finishJob(id: number, status: JobStatus, changes: Partial<ReceiptJob> = {}): Promise<void> {
+  const { error } = await supabase
+    .from("receipt_jobs")
+    .update({ ...changes, status, updated_at: new Date().toISOString() })
+    .eq("id", id);
+
+  if (error) console.error(`Failed to update job ${id}:`, error);
+}
+
+/** Keep the lease of a running job, so other instances don't take it back */
+async function touchJob(id: number): Promise<void> {
+  const { error } = await supabase
+    .from("receipt_jobs")
+    .update({ updated_at: new Date().toISOString() })
+    .eq("id", id)
+    .eq("status", "processing");
+
+  if (error) console.error(`Failed to renew job ${id}:`, error);
+}
+
+/** Jobs "processing" past their lease were interrupted; put them back in the queue */
+async function requeueInterruptedJobs(): Promise<void> {
+  const { data, error } = await supabase
+    .from("receipt_jobs")
+    .update({ status: "queued", updated_at: new Date().toISOString() })
+    .eq("status", "processing")
+    .lt("updated_at", new Date(Date.now() - JOB_LEASE_TIMEOUT).toISOString())
+    .select("id");
+
+  if (error) {
+    console.error("Failed to requeue interrupted jobs:", error);
+    return;
+  }
+  if (data && data.length > 0) {
+    console.log(`[jobs] Requeued ${data.length} interrupted jobs`);
+  }
+}
+
+export interface JobHandlers {
+  process(job: ReceiptJob): Promise<void>;
+  // Called once a job has used all its attempts
+  onFailed(job: ReceiptJob, error: unknown): Promise<void>;
+}
+
+let handlers: JobHandlers | null = null;
+let running = 0;
+let polling = false;
+
+/**
+ * A queued job that already used all its attempts was interrupted on the last one (the process
+ * crashed or ran out of memory on it). Running it again could take the bot down once more, so it
+ * fails instead; false if another worker got it first.
+ */
+async function failExhaustedJob(job: ReceiptJob): Promise<boolean> {
+  const error = new Error("Job interrupted on its last attempt");
+  const { data } = await supabase
+    .from("receipt_jobs")
+    .update({ status: "failed", last_error: job.last_error ?? String(error), updated_at: new Date().toISOString() })
+    .eq("id", job.id)
+    .eq("status", "queued")
+    .select("id");
+
+  if ((data?.length ?? 0) === 0) return false;
+
+  console.error(`[jobs] Job ${job.id} failed (attempt ${job.attempts}/${job.max_attempts}):`, error);
+  await handlers!.onFailed(job, error).catch((e) => {
+    console.error(`[jobs] Failed to report job ${job.id} failure:`, e);
+  });
+  return true;
+}
+
+async function runJob(job: ReceiptJob): Promise<void> {
+  const attempt = job.attempts + 1;
+  const heartbeat = setInterval(() => touchJob(job.id), JOB_HEARTBEAT_INTERVAL);
+
+  try {
+    await handlers!.process({ ...job, attempts: attempt });
+    await finishJob(job.id, "done", { last_error: null });
+  } catch (error) {
+    console.error(`[jobs] Job ${job.id} failed (attempt ${attempt}/${job.max_attempts}):`, error);
+
+    if (attempt >= job.max_attempts) {
+      await finishJob(job.id, "failed", { last_error: String(error) });
+      await handlers!.onFailed({ ...job, attempts: attempt }, error).catch((e) => {
+        console.error(`[jobs] Failed to report job ${job.id} failure:`, e);
+      });
+      return;
+    }
+
+    const delay = JOB_RETRY_BASE_DELAY * 2 ** (attempt - 1);
+    await finishJob(job.id, "queued", {
+      last_error: String(error),
+      next_attempt_at: new Date(Date.now() + delay).toISOString(),
+    });
+  } finally {
+    clearInterval(heartbeat);
+  }
+}
+
+/** Fill the free worker slots with due jobs, oldest first */
+async function pollJobs(): Promise<void> {
+  if (!handlers || polling || running >= JOB_CONCURRENCY) return;
+  polling = true;
+
+  try {
+    const { data: jobs, error } = await supabase
+      .from("receipt_jobs")
+      .select("*")
+      .eq("status", "queued")
+      .lte("next_attempt_at", new Date().toISOString())
+      .order("created_at", { ascending: true })
+      .limit(JOB_CONCURRENCY - running);
+
+    if (error) throw error;
+
+    for (const job of jobs ?? []) {
+      if (job.attempts >= job.max_attempts) {
+        await failExhaustedJob(job);
+        continue;
+      }
+      if (!(await claimJob(job))) continue;
+
+      // Gather the rest of an album before the next job of this poll could be one of its items
+      const claimed = job.kind === "album" ? await collectAlbumJobs(job) : job;
+
+      running++;
+      runJob(claimed).finally(() => {
+        running--;
+        wakeJobWorker();
+      });
+    }
+  } catch (error) {
+    console.error("[jobs] Failed to poll jobs:", error);
+  } finally {
+    polling = false;
+  }
+}
+
+export function wakeJobWorker(): void {
+  pollJobs().catch(() => {});
+}
+
+/** Start the worker pool: resume interrupted jobs, then poll the queue */
+export async function startJobWorker(jobHandlers: JobHandlers): Promise<void> {
+  handlers = jobHandlers;
+  await requeueInterruptedJobs();
+
+  // Also picks up the jobs of another instance that died
+  setInterval(requeueInterruptedJobs, JOB_LEASE_TIMEOUT);
+  setInterval(wakeJobWorker, JOB_POLL_INTERVAL);
+  wakeJobWorker();
+  console.log(`[jobs] Worker started (concurrency ${JOB_CONCURRENCY})`);
+}
+
+const JOB_KIND_LABELS: Record<JobKind, string> = {
+  receipt: "🧾 Comprovante",
+  album: "🗂️ Álbum",
+  notification: "🔔 Notificação",
+};
+
+export async function getPendingJobsMessage(chatId: number): Promise<string> {
+  const jobs = await getPendingJobs(chatId);
+
+  if (jobs.length === 0) {
+    return "✅ Nenhum comprovante na fila.";
+  }
+
+  const { timeZone } = await getDaySettings(chatId);
+  const formatTime = (iso: string) => formatTimeInZone(new Date(iso), timeZone);
+
+  // Items of an album are queued one by one until a worker gathers them; list each album once
+  const albums = new Map<string, ReceiptJob[]>();
+  const shown: ReceiptJob[] = [];
+  for (const job of jobs) {
+    const group = job.payload.mediaGroupId;
+    if (group && albums.has(group)) {
+      albums.get(group)!.push(job);
+      continue;
+    }
+    if (group) albums.set(group, [job]);
+    shown.push(job);
+  }
+
+  const lines = shown.map((job, i) => {
+    const items = job.payload.mediaGroupId ? albums.get(job.payload.mediaGroupId)! : [job];
+    const files = items.reduce((sum, item) => sum + (item.payload.files?.length ?? 0), 0);
+    const count = job.kind === "album" ? ` (${files})` : "";
+    let state: string;
+    if (job.status === "processing") {
+      state = "processando";
+    } else if (job.attempts > 0) {
+      state = `nova tentativa às ${formatTime(job.next_attempt_at)} (${job.attempts}/${job.max_attempts})`;
+    } else {
+      state = "na fila";
+    }
+    return `${i + 1}. ${JOB_KIND_LABELS[job.kind]}${count} - ${state} - enviado às ${formatTime(job.created_at)}`;
+  });
+
+  return `⏳ Fila de processamento (${shown.length}):\n\n${lines.join("\n")}`;
+}
@@ -0,0 +1,25 @@
+import type { PaymentMethod, Transaction } from "./database.js";
+
+// Kept free of runtime imports from the app, so modules can use the labels while loading
+// whatever the import order
+
+export const PAYMENT_METHOD_LABELS: Record<PaymentMethod, string> = {
+  pix: "PIX",
+  ted: "TED",
+  doc: "DOC",
+  boleto: "Boleto",
+  credito: "Crédito",
+  debito: "Débito",
+  dinheiro: "Dinheiro",
+  outro: "Outro",
+};
+
+/** "Crédito Visa 3x", "PIX", ... */
+export function formatPaymentMethod(
+  t: Pick<Transaction, "payment_method" | "card_brand" | "installments">
+): string {
+  const parts = [PAYMENT_METHOD_LABELS[t.payment_method ?? "pix"]];
+  if (t.card_brand) parts.push(t.card_brand);
+  if (t.installments && t.installments > 1) parts.push(`${t.installments}x`);
+  return parts.join(" ");
+}
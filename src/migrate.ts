@@ -0,0 +1,132 @@
+import fs from "fs/promises";
+import path from "path";
+import pg from "pg";
+
+/**
+ * Schema migrations: numbered SQL files in migrations/ ("001_create-transactions.sql"),
+ * applied in order and recorded in schema_migrations.
+ *
+ *   npm run migrate status   - applied and pending migrations
+ *   npm run migrate up       - apply every pending migration
+ *
+ * Runs against DATABASE_URL (the Postgres connection string from Supabase's database settings).
+ * The migrations are written to be re-runnable, so a database set up by pasting them into the
+ * SQL editor can adopt the runner with a plain "up".
+ */
+
+export interface Migration {
+  version: string; // "001"
+  name: string; // "create-transactions"
+  file: string;
+}
+
+// Works from src/ (tsx) and from dist/ (built)
+const MIGRATIONS_DIR = path.resolve(__dirname, "..", "migrations");
+
+const CREATE_MIGRATIONS_TABLE = `
+  CREATE TABLE IF NOT EXISTS schema_migrations (
+    version TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    applied_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+  )
+`;
+
+export async function listMigrations(): Promise<Migration[]> {
+  const files = await fs.readdir(MIGRATIONS_DIR);
+
+  return files
+    .map((file) => file.match(/^(\d+)_(.+)\.sql$/))
+    .filter((match): match is RegExpMatchArray => match !== null)
+    .map(([file, version, name]) => ({ version, name, file: path.join(MIGRATIONS_DIR, file) }))
+    .sort((a, b) => a.version.localeCompare(b.version));
+}
+
+async function connect(): Promise<pg.Client> {
+  const connectionString = process.env.DATABASE_URL;
+  if (!connectionString) {
+    throw new Error("DATABASE_URL is not set (Supabase: Project settings > Database > Connection string)");
+  }
+
+  const client = new pg.Client({ connectionString });
+  await client.connect();
+  await client.query(CREATE_MIGRATIONS_TABLE);
+  return client;
+}
+
+async function getAppliedVersions(client: pg.Client): Promise<Set<string>> {
+  const { rows } = await client.query<{ version: string }>("SELECT version FROM schema_migrations");
+  return new Set(rows.map((row) => row.version));
+}
+
+/** Apply every pending migration, each in its own transaction; returns the ones applied */
+export async function migrateUp(): Promise<Migration[]> {
+  const client = await connect();
+  const applied: Migration[] = [];
+
+  try {
+    const done = await getAppliedVersions(client);
+
+    for (const migration of await listMigrations()) {
+      if (done.has(migration.version)) continue;
+
+      const sql = await fs.readFile(migration.file, "utf-8");
+      try {
+        await client.query("BEGIN");
+        await client.query(sql);
+        await client.query("INSERT INTO schema_migrations (version, name) VALUES ($1, $2)", [
+          migration.version,
+          migration.name,
+        ]);
+        await client.query("COMMIT");
+      } catch (error) {
+        await client.query("ROLLBACK");
+        throw new Error(`Migration ${migration.version}_${migration.name} failed: ${(error as Error).message}`);
+      }
+
+      console.log(`[migrate] Applied ${migration.version}_${migration.name}`);
+      applied.push(migration);
+    }
+  } finally {
+    await client.end();
+  }
+
+  return applied;
+}
+
+export async function getMigrationStatus(): Promise<{ migration: Migration; applied: boolean }[]> {
+  const client = await connect();
+
+  try {
+    const done = await getAppliedVersions(client);
+    return (await listMigrations()).map((migration) => ({ migration, applied: done.has(migration.version) }));
+  } finally {
+    await client.end();
+  }
+}
+
+async function main(): Promise<void> {
+  const command = process.argv[2];
+
+  if (command === "up") {
+    const applied = await migrateUp();
+    console.log(applied.length > 0 ? `Applied ${applied.length} migration(s)` : "Schema is up to date");
+    return;
+  }
+
+  if (command === "status") {
+    for (const { migration, applied } of await getMigrationStatus()) {
+      console.log(`${applied ? "[x]" : "[ ]"} ${migration.version}_${migration.name}`);
+    }
+    return;
+  }
+
+  console.error("Usage: migrate <up|status>");
+  process.exit(1);
+}
+
+if (require.main === module) {
+  main().catch((error) => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,106 @@
+import path from "path";
+import { createWorker, Worker } from "tesseract.js";
+import { buildResult, ExtractionResult, Extractor, MediaType } from "./extractor.js";
+import { parseReceiptText, TextSource } from "./parser.js";
+
+// Below this OCR page confidence (0-100) the text is too unreliable to parse
+const MIN_OCR_CONFIDENCE = 60;
+
+// Portuguese language data ships as an npm package, so OCR never downloads anything
+const LANG_PATH = path.join(path.dirname(require.resolve("@tesseract.js-data/por/package.json")), "4.0.0");
+
+let workerPromise: Promise<Worker> | null = null;
+
+/** Lazily start a single OCR worker and reuse it for every image */
+function getWorker(): Promise<Worker> {
+  if (!workerPromise) {
+    workerPromise = createWorker("por", undefined, {
+      langPath: LANG_PATH,
+      gzip: true,
+      cacheMethod: "none",
+    }).catch((error) => {
+      workerPromise = null;
+      throw error;
+    });
+  }
+  return workerPromise;
+}
+
+/** Text embedded in a PDF, page by page, one line per text row */
+async function extractPdfText(buffer: Buffer): Promise<string> {
+  // pdfjs is ESM-only, so it has to be loaded dynamically from CommonJS
+  const { getDocument } = await import("pdfjs-dist/legacy/build/pdf.mjs");
+  const pdf = await getDocument({ data: new Uint8Array(buffer), isEvalSupported: false, verbosity: 0 }).promise;
+
+  const pages: string[] = [];
+  for (let i = 1; i <= pdf.numPages; i++) {
+    const page = await pdf.getPage(i);
+    const content = await page.getTextContent();
+    const text = content.items
+      .map((item) => ("str" in item ? item.str + (item.hasEOL ? "\n" : " ") : ""))
+      .join("");
+    pages.push(text);
+  }
+
+  await pdf.destroy();
+  return pages.join("\n");
+}
+
+async function extractImageText(buffer: Buffer): Promise<{ text: string; confidence: number }> {
+  const worker = await getWorker();
+  const { data } = await worker.recognize(buffer);
+  return { text: data.text, confidence: data.confidence };
+}
+
+/**
+ * Offline extraction: PDF text when the PDF has it, OCR otherwise,
+ * then the rule-based parser. Free, but only handles one receipt per file.
+ */
+export const localExtractor: Extractor = {
+  name: "local",
+  async extract(base64Data: string, mediaType: MediaType) {
+    const buffer = Buffer.from(base64Data, "base64");
+    const startedAt = Date.now();
+    const withCall = (result: ExtractionResult): ExtractionResult => ({
+      ...result,
+      calls: [
+        {
+          engine: "local",
+          model: null,
+          inputTokens: 0,
+          outputTokens: 0,
+          latencyMs: Date.now() - startedAt,
+          success: result.receipts.length > 0,
+        },
+      ],
+    });
+
+    try {
+      let text: string;
+      let source: TextSource;
+
+      if (mediaType === "application/pdf") {
+        // Scanned PDFs have no text layer; the parser finds nothing and the next engine takes over
+        text = await extractPdfText(buffer);
+        source = "text";
+      } else {
+        const ocr = await extractImageText(buffer);
+        if (ocr.confidence < MIN_OCR_CONFIDENCE) {
+          return withCall(
+            buildResult("local", [], ocr.text, `OCR confidence too low (${Math.round(ocr.confidence)})`)
+          );
+        }
+        text = ocr.text;
+        source = "ocr";
+      }
+
+      const receipts = parseReceiptText(text, source);
+      return withCall(
+        buildResult("local", receipts, text, receipts.length === 0 ? "No amount found" : undefined)
+      );
+    } catch (error) {
+      console.error("Local extraction error:", error);
+      return withCall(buildResult("local", [], String(error), "Local extraction failed"));
+    }
+  },
+};
@@ -0,0 +1,342 @@
+import { EMPTY_RECEIPT, normalizeE2eId, Confidence, ExtractedReceipt } from "./extractor.js";
+import { PaymentMethod } from "./database.js";
+
+/** Where the text came from: embedded PDF text is exact, OCR may misread characters */
+export type TextSource = "text" | "ocr";
+
+interface BankLayout {
+  name: string;
+  detect: RegExp;
+  // Section headers, when the bank labels payer and receiver differently from the common ones
+  payerHeader?: RegExp;
+  receiverHeader?: RegExp;
+}
+
+// Major banks' receipt layouts. Most share the "Origem"/"Destino" structure; the rest override headers.
+const BANK_LAYOUTS: BankLayout[] = [
+  { name: "Nubank", detect: /nu\s?pagamentos|nubank/i },
+  { name: "Itaú", detect: /ita[uú]\s?unibanco|\bita[uú]\b/i, payerHeader: /^(dados do pagador|pagador)\b/i, receiverHeader: /^(dados do recebedor|recebedor)\b/i },
+  { name: "Bradesco", detect: /bradesco/i, payerHeader: /^(dados de quem pagou|pagador)\b/i, receiverHeader: /^(dados de quem recebeu|favorecido)\b/i },
+  { name: "Banco do Brasil", detect: /b(an)?co\.? do brasil/i, payerHeader: /^(pago por|pagador)\b/i, receiverHeader: /^(pago para|recebedor)\b/i },
+  { name: "Caixa", detect: /caixa econ[oô]mica|\bcaixa\b/i },
+  { name: "Santander", detect: /santander/i, payerHeader: /^(dados do pagador|de)\b/i, receiverHeader: /^(dados do recebedor|para)\b/i },
+  { name: "Inter", detect: /banco inter\b/i, payerHeader: /^(quem pagou)\b/i, receiverHeader: /^(quem recebeu)\b/i },
+  { name: "C6 Bank", detect: /c6\s?bank/i },
+  { name: "PicPay", detect: /picpay/i, payerHeader: /^(de)\b/i, receiverHeader: /^(para)\b/i },
+  { name: "Mercado Pago", detect: /mercado\s?pago/i, payerHeader: /^(de)\b/i, receiverHeader: /^(para)\b/i },
+  { name: "PagBank", detect: /pagbank|pagseguro/i },
+  { name: "Sicoob", detect: /sicoob/i },
+  { name: "Sicredi", detect: /sicredi/i },
+];
+
+/** The bank's usual name when the text mentions a known bank ("NU PAGAMENTOS S.A." -> "Nubank") */
+export function getKnownBankName(text: string): string | null {
+  return BANK_LAYOUTS.find((l) => l.detect.test(text))?.name ?? null;
+}
+
+const DEFAULT_PAYER_HEADER = /^(origem|dados do pagador|pagador|quem pagou|de)\b/i;
+const DEFAULT_RECEIVER_HEADER = /^(destino|dados do recebedor|recebedor|favorecido|quem recebeu|para)\b/i;
+
+const MONTHS: Record<string, number> = {
+  JAN: 1, FEV: 2, MAR: 3, ABR: 4, MAI: 5, JUN: 6, JUL: 7, AGO: 8, SET: 9, OUT: 10, NOV: 11, DEZ: 12,
+};
+
+/**
+ * Parse a BRL amount as people and banks write it.
+ * "R$ 1.500,50" -> 1500.5, "1500,50" -> 1500.5, "1,500.50" -> 1500.5, "1500.50" -> 1500.5, "150" -> 150
+ */
+export function parseBRLAmount(text: string): number | null {
+  const cleaned = text.replace(/R\$|\s/gi, "").replace(/[^\d.,]/g, "");
+  if (!/\d/.test(cleaned)) return null;
+
+  const lastComma = cleaned.lastIndexOf(",");
+  const lastDot = cleaned.lastIndexOf(".");
+  let normalized: string;
+
+  if (lastComma >= 0 && lastDot >= 0) {
+    // Both present: the last one is the decimal separator
+    const decimalSep = lastComma > lastDot ? "," : ".";
+    const thousandsSep = decimalSep === "," ? "." : ",";
+    normalized = cleaned.split(thousandsSep).join("").replace(decimalSep, ".");
+  } else if (lastComma >= 0 || lastDot >= 0) {
+    // Only one kind: decimal if it appears once with 1-2 digits after it, thousands otherwise
+    const sep = lastComma >= 0 ? "," : ".";
+    const parts = cleaned.split(sep);
+    const isDecimal = parts.length === 2 && parts[1].length >= 1 && parts[1].length <= 2;
+    normalized = isDecimal ? parts.join(".") : parts.join("");
+  } else {
+    normalized = cleaned;
+  }
+
+  const amount = parseFloat(normalized);
+  return isNaN(amount) || amount <= 0 ? null : Math.round(amount * 100) / 100;
+}
+
+const PAYMENT_METHOD_ALIASES: Record<string, PaymentMethod> = {
+  pix: "pix",
+  ted: "ted",
+  doc: "doc",
+  boleto: "boleto",
+  credito: "credito",
+  debito: "debito",
+  dinheiro: "dinheiro",
+  especie: "dinheiro",
+  cash: "dinheiro",
+  outro: "outro",
+};
+
+/** Payment method from a word the user typed ("crédito", "Dinheiro", ...), null if not one */
+export function parsePaymentMethodName(word: string): PaymentMethod | null {
+  const key = word.normalize("NFD").replace(/[\u0300-\u036f]/g, "").toLowerCase();
+  return PAYMENT_METHOD_ALIASES[key] ?? null;
+}
+
+/**
+ * Manual entry arguments: "<valor> [cliente] [forma de pagamento]".
+ * "150,00 João dinheiro" -> 150 / "João" / dinheiro; the method defaults to dinheiro.
+ */
+export function parseManualEntry(
+  text: string
+): { amount: number; clientName: string | null; paymentMethod: PaymentMethod } | null {
+  const words = text.trim().split(/\s+/).filter(Boolean);
+
+  // Allow "R$ 150,00" as well as "150,00"
+  if (words[0]?.toUpperCase() === "R$") words.shift();
+
+  const amount = words.length > 0 ? parseBRLAmount(words[0]) : null;
+  if (amount === null || !/^(R\$)?[\d.,]+$/i.test(words[0])) return null;
+
+  const rest = words.slice(1);
+  const method = rest.length > 0 ? parsePaymentMethodName(rest[rest.length - 1]) : null;
+  if (method) rest.pop();
+
+  return {
+    amount,
+    clientName: rest.length > 0 ? rest.join(" ") : null,
+    paymentMethod: method ?? "dinheiro",
+  };
+}
+
+/** Every "R$ ..." value in the text, in order of appearance */
+function findCurrencyValues(text: string): number[] {
+  const matches = text.matchAll(/R\$\s*([\d.,]+\d)/gi);
+  return [...matches]
+    .map((m) => parseBRLAmount(m[1]))
+    .filter((v): v is number => v !== null);
+}
+
+/** Amount next to a "Valor" label, the most reliable place on a receipt */
+function findLabelledAmount(lines: string[]): number | null {
+  for (const [i, line] of lines.entries()) {
+    if (!/^valor\b/i.test(line) || /tarifa|desconto|juros|multa/i.test(line)) continue;
+
+    const sameLine = line.match(/R?\$?\s*([\d.,]+\d)\s*$/);
+    if (sameLine) return parseBRLAmount(sameLine[1]);
+
+    const next = lines[i + 1]?.match(/^R?\$?\s*([\d.,]+\d)$/);
+    if (next) return parseBRLAmount(next[1]);
+  }
+  return null;
+}
+
+/** Receipt timestamp: "19/10/2026 às 14:32:05", "19/10/2026 - 14:32" or "19 OUT 2026 - 14:32:05" */
+export function parseReceiptDate(text: string): string | null {
+  const numeric = text.match(/(\d{2})\/(\d{2})\/(\d{4})\D{1,6}(\d{2}):(\d{2})(?::(\d{2}))?/);
+  const written = text.match(/(\d{1,2})\s+(JAN|FEV|MAR|ABR|MAI|JUN|JUL|AGO|SET|OUT|NOV|DEZ)\w*\.?\s+(\d{4})\D{1,6}(\d{2}):(\d{2})(?::(\d{2}))?/i);
+
+  let parts: [number, number, number, string, string, string] | null = null;
+  if (numeric) {
+    parts = [+numeric[3], +numeric[2], +numeric[1], numeric[4], numeric[5], numeric[6] ?? "00"];
+  } else if (written) {
+    parts = [+written[3], MONTHS[written[2].toUpperCase()], +written[1], written[4], written[5], written[6] ?? "00"];
+  }
+  if (!parts) return null;
+
+  const [year, month, day, hour, minute, second] = parts;
+  const pad = (n: number) => String(n).padStart(2, "0");
+  // Receipts print Brasília time
+  const date = new Date(`${year}-${pad(month)}-${pad(day)}T${hour}:${minute}:${second}-03:00`);
+  return isNaN(date.getTime()) ? null : date.toISOString();
+}
+
+/** Value after a label, on the same line ("Nome: Fulano") or on the next one ("Nome" / "Fulano") */
+function findLabelled(lines: string[], label: RegExp): string | null {
+  for (const [i, line] of lines.entries()) {
+    const match = line.match(label);
+    if (!match || match.index !== 0) continue;
+
+    const rest = line.slice(match[0].length).replace(/^\s*[:\-]?\s*/, "").trim();
+    if (rest) return rest;
+
+    const next = lines[i + 1]?.trim();
+    if (next) return next;
+  }
+  return null;
+}
+
+/** Classify the document by the words banks and card terminals print on it */
+export function detectPaymentMethod(text: string): PaymentMethod {
+  if (/\bpix\b/i.test(text)) return "pix";
+  if (/\bTED\b|transfer[eê]ncia eletr[oô]nica dispon[ií]vel/i.test(text)) return "ted";
+  if (/\bDOC\b/.test(text)) return "doc";
+  if (/boleto|linha digit[aá]vel|c[oó]digo de barras/i.test(text)) return "boleto";
+  if (/cr[eé]dito/i.test(text) && /cart[aã]o|via\s+(do\s+)?(cliente|estabelecimento)|\bPOS\b/i.test(text)) return "credito";
+  if (/d[eé]bito/i.test(text) && /cart[aã]o|via\s+(do\s+)?(cliente|estabelecimento)|\bPOS\b/i.test(text)) return "debito";
+  return "outro";
+}
+
+const CARD_BRANDS = ["Visa", "Mastercard", "Elo", "Amex", "Hipercard", "Maestro", "Diners", "Cabal"];
+
+/** Card brand and installment count from a card terminal slip */
+function parseCardSlip(text: string): { brand: string | null; installments: number } {
+  const brand = CARD_BRANDS.find((b) => new RegExp(`\\b${b}\\b`, "i").test(text)) ?? null;
+  const installments = text.match(/(\d{1,2})\s*(?:x|parcelas)\b|parcelado\s+em\s+(\d{1,2})/i);
+  return {
+    brand,
+    installments: installments ? parseInt(installments[1] ?? installments[2], 10) : 1,
+  };
+}
+
+/** Split the receipt into the lines that describe the payer and those that describe the receiver */
+function splitSections(lines: string[], layout: BankLayout | undefined): { payer: string[]; receiver: string[] } {
+  const payerHeader = layout?.payerHeader ?? DEFAULT_PAYER_HEADER;
+  const receiverHeader = layout?.receiverHeader ?? DEFAULT_RECEIVER_HEADER;
+
+  const payer: string[] = [];
+  const receiver: string[] = [];
+  let current: string[] | null = null;
+
+  for (const line of lines) {
+    if (receiverHeader.test(line)) {
+      current = receiver;
+    } else if (payerHeader.test(line)) {
+      current = payer;
+    }
+    current?.push(line);
+  }
+
+  return { payer, receiver };
+}
+
+function parseParty(lines: string[]): { name: string | null; document: string | null; institution: string | null; key: string | null } {
+  return {
+    name: findLabelled(lines, /^nome\b/i),
+    document: findLabelled(lines, /^(cpf\/cnpj|cpf|cnpj)\b/i),
+    institution: findLabelled(lines, /^(institui[cç][aã]o|banco)\b/i),
+    key: findLabelled(lines, /^chave(\s+pix)?\b/i),
+  };
+}
+
+/**
+ * Rule-based receipt parser for text from PDFs or OCR.
+ * Returns a single receipt, or an empty list when no amount can be found.
+ */
+export function parseReceiptText(text: string, source: TextSource): ExtractedReceipt[] {
+  const lines = text
+    .split(/\r?\n/)
+    .map((line) => line.replace(/\s+/g, " ").trim())
+    .filter(Boolean);
+
+  const labelled = findLabelledAmount(lines);
+  const values = findCurrencyValues(text);
+  const amount = labelled ?? values[0] ?? null;
+  if (amount === null) return [];
+
+  const layout = BANK_LAYOUTS.find((l) => l.detect.test(text));
+  const { payer, receiver } = splitSections(lines, layout);
+  const payerParty = parseParty(payer);
+  const receiverParty = parseParty(receiver);
+
+  const method = detectPaymentMethod(text);
+  const card = method === "credito" || method === "debito" ? parseCardSlip(text) : null;
+
+  const e2eMatch = text.replace(/[ \t]+/g, "").match(/E\d{8}\d{12}[A-Za-z0-9]{11}/);
+
+  // Confidence reflects how the amount was found and how exact the text is
+  const reasons: string[] = [];
+  if (labelled === null) reasons.push("valor sem rótulo");
+  if (labelled === null && new Set(values).size > 1) reasons.push("vários valores visíveis");
+  if (source === "ocr") reasons.push("texto lido por OCR");
+
+  let confidence: Confidence = "high";
+  if (labelled === null) confidence = "low";
+  else if (source === "ocr") confidence = "medium";
+
+  return [
+    {
+      ...EMPTY_RECEIPT,
+      amount,
+      bank: layout?.name ?? null,
+      clientName: payerParty.name,
+      e2eId: e2eMatch ? normalizeE2eId(e2eMatch[0]) : null,
+      paidAt: parseReceiptDate(text),
+      receiverName: receiverParty.name,
+      receiverInstitution: receiverParty.institution,
+      receiverKey: receiverParty.key,
+      receiverDocument: receiverParty.document,
+      payerDocument: payerParty.document,
+      payerBank: payerParty.institution ?? layout?.name ?? null,
+      paymentMethod: method,
+      cardBrand: card?.brand ?? null,
+      installments: card?.installments ?? null,
+      isScheduled: /agendad[oa]|agendamento/i.test(text),
+      confidence,
+      confidenceReasons: reasons,
+      candidateAmounts: [...new Set(values)].filter((v) => v !== amount),
+    },
+  ];
+}
+
+// Bank push notifications and their copy-pasted texts, amount first or payer first
+const AMOUNT = String.raw`R\$\s*(?<amount>[\d.,]*\d)`;
+const PAYER = String.raw`(?<payer>[A-Za-zÀ-ÿ][A-Za-zÀ-ÿ'. ]*?)(?=\s*(?:[,;!\n]|\.\s|\.?$|\s(?:no valor|valor|em|às|as|via|hoje|pel[oa]|para|na sua conta)\b))`;
+const NOTIFICATION_PATTERNS: RegExp[] = [
+  // "Pix recebido: R$ 85,00 de MARIA S"
+  new RegExp(String.raw`pix recebido:?\s*(?:de\s+)?${AMOUNT}\s+de\s+${PAYER}`, "im"),
+  // "Pix recebido de MARIA SILVA, valor R$ 85,00"
+  new RegExp(String.raw`pix recebido\s+de\s+${PAYER}\s*,?\s*(?:no\s+)?(?:valor\s+)?(?:de\s+)?:?\s*${AMOUNT}`, "im"),
+  // "Você recebeu uma transferência de R$ 85,00 de MARIA SILVA", "Recebemos um Pix de R$ 85,00 de Maria"
+  new RegExp(String.raw`rece(?:beu|bemos)\s+(?:um\s+pix|uma\s+transfer[eê]ncia(?:\s+pix)?)\s+(?:no valor\s+)?de\s+${AMOUNT}\s+de\s+${PAYER}`, "im"),
+  // "Você recebeu um Pix de MARIA SILVA no valor de R$ 85,00"
+  new RegExp(String.raw`rece(?:beu|bemos)\s+(?:um\s+pix|uma\s+transfer[eê]ncia(?:\s+pix)?)\s+de\s+${PAYER}\s*,?\s*(?:no valor de|valor|de)\s*:?\s*${AMOUNT}`, "im"),
+];
+
+/** Whether a text message reads like a received-payment notification worth extracting */
+export function looksLikePaymentNotification(text: string): boolean {
+  return (
+    /R\$\s*[\d.,]*\d/.test(text) &&
+    /\b(pix|transfer[eê]ncia|recebid[oa]|recebeu|recebemos|dep[oó]sito|pagamento)\b/i.test(text)
+  );
+}
+
+/**
+ * Rule-based parser for forwarded or pasted bank notifications ("Pix recebido: R$ 85,00 de MARIA S").
+ * Only the wordings above are trusted; anything else returns an empty list.
+ */
+export function parseNotificationText(text: string): ExtractedReceipt[] {
+  for (const pattern of NOTIFICATION_PATTERNS) {
+    const match = text.match(pattern);
+    const amount = match?.groups ? parseBRLAmount(match.groups.amount) : null;
+    if (!match?.groups || amount === null) continue;
+
+    const layout = BANK_LAYOUTS.find((l) => l.detect.test(text));
+    const method = detectPaymentMethod(text);
+    const e2eMatch = text.replace(/[ \t]+/g, "").match(/E\d{8}\d{12}[A-Za-z0-9]{11}/);
+
+    return [
+      {
+        ...EMPTY_RECEIPT,
+        amount,
+        bank: layout?.name ?? null,
+        clientName: match.groups.payer.trim() || null,
+        e2eId: e2eMatch ? normalizeE2eId(e2eMatch[0]) : null,
+        paidAt: parseReceiptDate(text),
+        receiverInstitution: layout?.name ?? null,
+        // Banks announce Pix and other transfers alike as "transferência recebida"
+        paymentMethod: method === "outro" ? "pix" : method,
+        confidence: "high",
+      },
+    ];
+  }
+  return [];
+}
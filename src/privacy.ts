@@ -0,0 +1,166 @@
+import JSZip from "jszip";
+import { supabase, Transaction, MAX_ROWS_PER_REQUEST } from "./database.js";
+import { forgetDaySettings, getDaySettings } from "./businessday.js";
+import { addReceiptsToZip, removeReceipts } from "./storage.js";
+
+// Tables holding a chat's data, deleted in this order by /excluirconta
+const CHAT_TABLES = [
+  "transaction_audit",
+  "extraction_calls",
+  "receipt_jobs",
+  "transactions",
+  "shifts",
+  "clients",
+  "receiver_profiles",
+  "chat_settings",
+  "summary_schedules",
+  "sales_goals",
+  "subscriptions",
+];
+
+// Months to keep raw model responses and receipt files; 0 keeps them forever
+export const DATA_RETENTION_MONTHS = parseInt(process.env.DATA_RETENTION_MONTHS || "0", 10);
+
+/** Every row of a chat in one table, oldest first */
+async function selectChatRows(table: string, chatId: number): Promise<Record<string, unknown>[]> {
+  const rows: Record<string, unknown>[] = [];
+
+  for (let from = 0; ; from += MAX_ROWS_PER_REQUEST) {
+    const { data, error } = await supabase
+      .from(table)
+      .select("*")
+      .eq("chat_id", chatId)
+      .order("id", { ascending: true })
+      .range(from, from + MAX_ROWS_PER_REQUEST - 1);
+
+    if (error) throw error;
+    rows.push(...(data ?? []));
+    if (!data || data.length < MAX_ROWS_PER_REQUEST) return rows;
+  }
+}
+
+/** ZIP with dados.json (every row stored for the chat) and the archived receipt files (/meusdados) */
+export async function exportPersonalData(chatId: number): Promise<{ zip: Buffer; transactions: number; files: number }> {
+  const data: Record<string, Record<string, unknown>[]> = {};
+  for (const table of [...CHAT_TABLES, "payments"]) {
+    data[table] = await selectChatRows(table, chatId);
+  }
+
+  const zip = new JSZip();
+  zip.file("dados.json", JSON.stringify({ exported_at: new Date().toISOString(), chat_id: chatId, ...data }, null, 2));
+
+  const { timeZone } = await getDaySettings(chatId);
+  const transactions = data.transactions as unknown as Transaction[];
+  const files = await addReceiptsToZip(zip, transactions, timeZone, "comprovantes/");
+
+  return {
+    zip: await zip.generateAsync({ type: "nodebuffer", compression: "DEFLATE" }),
+    transactions: transactions.length,
+    files,
+  };
+}
+
+/** Archive keys of every receipt file of a chat */
+async function getReceiptPaths(chatId: number): Promise<string[]> {
+  const paths = new Set<string>();
+
+  for (let from = 0; ; from += MAX_ROWS_PER_REQUEST) {
+    const { data, error } = await supabase
+      .from("transactions")
+      .select("receipt_path")
+      .eq("chat_id", chatId)
+      .not("receipt_path", "is", null)
+      .order("id", { ascending: true })
+      .range(from, from + MAX_ROWS_PER_REQUEST - 1);
+
+    if (error) throw error;
+    data?.forEach((row) => paths.add(row.receipt_path));
+    if (!data || data.length < MAX_ROWS_PER_REQUEST) return [...paths];
+  }
+}
+
+/**
+ * Erase a chat's data (/excluirconta): archived files and every row, including soft-deleted
+ * transactions. Payments of plans are kept for accounting, detached from the chat.
+ */
+export async function deleteAccount(chatId: number): Promise<{ files: number }> {
+  const paths = await getReceiptPaths(chatId);
+  await removeReceipts(paths);
+
+  for (const table of CHAT_TABLES) {
+    const { error } = await supabase.from(table).delete().eq("chat_id", chatId);
+    if (error) throw error;
+  }
+
+  const { error } = await supabase
+    .from("payments")
+    .update({ chat_id: 0, pix_qr_code: null, pix_qr_code_base64: null })
+    .eq("chat_id", chatId);
+
+  if (error) throw error;
+
+  forgetDaySettings(chatId);
+  return { files: paths.length };
+}
+
+/**
+ * Retention job: drop raw model responses and archived files of transactions older than
+ * DATA_RETENTION_MONTHS, and finished jobs (which hold notification texts) of the same age.
+ */
+export async function purgeExpiredData(): Promise<{ transactions: number; files: number; jobs: number }> {
+  const purged = { transactions: 0, files: 0, jobs: 0 };
+  if (DATA_RETENTION_MONTHS <= 0) return purged;
+
+  const cutoff = new Date();
+  cutoff.setMonth(cutoff.getMonth() - DATA_RETENTION_MONTHS);
+
+  for (;;) {
+    const { data: expired, error } = await supabase
+      .from("transactions")
+      .select("id, receipt_path")
+      .lt("created_at", cutoff.toISOString())
+      .or("raw_response.not.is.null,receipt_path.not.is.null")
+      .limit(MAX_ROWS_PER_REQUEST);
+
+    if (error) throw error;
+    if (!expired || expired.length === 0) break;
+
+    // A file re-registered later is still in use by the newer transaction
+    const paths = [...new Set(expired.map((t) => t.receipt_path).filter(Boolean))] as string[];
+    let unused = paths;
+    if (paths.length > 0) {
+      const { data: inUse } = await supabase
+        .from("transactions")
+        .select("receipt_path")
+        .in("receipt_path", paths)
+        .gte("created_at", cutoff.toISOString());
+
+      const kept = new Set((inUse ?? []).map((t) => t.receipt_path));
+      unused = paths.filter((p) => !kept.has(p));
+    }
+    await removeReceipts(unused);
+
+    const { error: updateError } = await supabase
+      .from("transactions")
+      .update({ raw_response: null, receipt_path: null })
+      .in("id", expired.map((t) => t.id));
+
+    if (updateError) throw updateError;
+    purged.transactions += expired.length;
+    purged.files += unused.length;
+
+    if (expired.length < MAX_ROWS_PER_REQUEST) break;
+  }
+
+  const { data: jobs, error: jobsError } = await supabase
+    .from("receipt_jobs")
+    .delete()
+    .in("status", ["done", "failed"])
+    .lt("created_at", cutoff.toISOString())
+    .select("id");
+
+  if (jobsError) throw jobsError;
+  purged.jobs = jobs?.length ?? 0;
+
+  return purged;
+}
@@ -0,0 +1,176 @@
+import { supabase } from "./database.js";
+import { ExtractedReceipt } from "./extractor.js";
+import { getKnownBankName } from "./parser.js";
+import { digitsOnly, normalizeName } from "./text.js";
+
+/** The merchant's own receiving identity, used to check who a receipt was paid to */
+export interface ReceiverProfile {
+  id?: number;
+  chat_id: number;
+  legal_name: string | null;
+  cnpj: string | null;
+  bank: string | null;
+  pix_keys: string[];
+  created_at?: string;
+  updated_at?: string;
+}
+
+export type ReceiverCheck = "ok" | "mismatch" | "scheduled" | "not_payment" | "unverified";
+
+export async function getReceiverProfile(chatId: number): Promise<ReceiverProfile | null> {
+  const { data } = await supabase
+    .from("receiver_profiles")
+    .select("*")
+    .eq("chat_id", chatId)
+    .maybeSingle();
+
+  return data;
+}
+
+export async function updateReceiverProfile(
+  chatId: number,
+  changes: Partial<Pick<ReceiverProfile, "legal_name" | "cnpj" | "bank" | "pix_keys">>
+): Promise<ReceiverProfile> {
+  const { data, error } = await supabase
+    .from("receiver_profiles")
+    .upsert(
+      { chat_id: chatId, ...changes, updated_at: new Date().toISOString() },
+      { onConflict: "chat_id" }
+    )
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+/**
+ * Compare a document number against one that may be masked ("***.456.789-**").
+ * Same length: compare position by position, skipping masked digits.
+ * Otherwise: the longest visible digit run must appear in the full number.
+ */
+function documentsMatch(registered: string, printed: string): boolean {
+  const full = digitsOnly(registered);
+  const masked = printed.replace(/[•●]/g, "*").replace(/[^\d*]/g, "");
+  if (!full || !masked) return false;
+
+  if (masked.length === full.length) {
+    return [...masked].every((c, i) => c === "*" || c === full[i]);
+  }
+
+  const runs = masked.split("*").filter((run) => run.length >= 3);
+  const longest = runs.sort((a, b) => b.length - a.length)[0];
+  return longest !== undefined && full.includes(longest);
+}
+
+/** Compare a registered PIX key against one printed on a receipt, where "*" hides characters */
+function pixKeysMatch(registered: string, printed: string): boolean {
+  const normalize = (key: string) => key.trim().toLowerCase().replace(/\s+/g, "");
+  const key = normalize(registered);
+  const shown = normalize(printed).replace(/[•●]/g, "*");
+
+  if (!shown.includes("*")) {
+    return key === shown || (digitsOnly(key).length >= 8 && digitsOnly(key) === digitsOnly(shown));
+  }
+
+  const pattern = shown
+    .split(/\*+/)
+    .map((part) => part.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"))
+    .join(".*");
+  const regex = new RegExp(`^${pattern}$`);
+  return regex.test(key) || regex.test(digitsOnly(key));
+}
+
+/** Names match when every word of the shorter one appears in the longer one */
+function namesMatch(a: string, b: string): boolean {
+  const wordsA = normalizeName(a).split(" ").filter(Boolean);
+  const wordsB = normalizeName(b).split(" ").filter(Boolean);
+  const [shorter, longer] = wordsA.length <= wordsB.length ? [wordsA, wordsB] : [wordsB, wordsA];
+  return shorter.length > 0 && shorter.every((word) => longer.includes(word));
+}
+
+/** Banks match by their known name ("Nubank" and "NU PAGAMENTOS S.A."), else like names */
+function banksMatch(a: string, b: string): boolean {
+  const knownA = getKnownBankName(a);
+  const knownB = getKnownBankName(b);
+  if (knownA && knownB) return knownA === knownB;
+  return namesMatch(a, b);
+}
+
+/** Check whether a receipt is a settled payment to this chat's registered receiver */
+export function validateReceiver(profile: ReceiverProfile | null, receipt: ExtractedReceipt): ReceiverCheck {
+  if (receipt.paymentMethod === "outro") return "not_payment";
+  if (receipt.isScheduled) return "scheduled";
+  if (!profile) return "unverified";
+
+  // Strong identifiers (CNPJ, PIX key) decide on their own when present
+  const strongChecks: boolean[] = [];
+  if (profile.cnpj && receipt.receiverDocument) {
+    strongChecks.push(documentsMatch(profile.cnpj, receipt.receiverDocument));
+  }
+  if (receipt.paymentMethod === "pix" && profile.pix_keys.length > 0 && receipt.receiverKey) {
+    strongChecks.push(profile.pix_keys.some((key) => pixKeysMatch(key, receipt.receiverKey!)));
+  }
+
+  if (strongChecks.length > 0) {
+    return strongChecks.some(Boolean) ? "ok" : "mismatch";
+  }
+
+  // Otherwise fall back to the name, backed by the bank when both are known. Card slips and
+  // boletos print the trade name rather than the legal name, so only transfers are compared.
+  const isTransfer = ["pix", "ted", "doc"].includes(receipt.paymentMethod);
+  if (isTransfer && profile.legal_name && receipt.receiverName) {
+    if (!namesMatch(profile.legal_name, receipt.receiverName)) return "mismatch";
+    // Institution names are printed in too many forms to hold back a receipt whose name matched
+    if (profile.bank && receipt.receiverInstitution && !banksMatch(profile.bank, receipt.receiverInstitution)) {
+      return "unverified";
+    }
+    return "ok";
+  }
+
+  return "unverified";
+}
+
+/** Whether a check result must hold the receipt back from the total */
+export function isReceiverCheckBlocking(check: ReceiverCheck | null | undefined): boolean {
+  return check === "mismatch" || check === "scheduled" || check === "not_payment";
+}
+
+/** Warning shown to the user for a blocking check result */
+export function getReceiverCheckMessage(check: ReceiverCheck, receiverName: string | null): string | null {
+  switch (check) {
+    case "mismatch":
+      return `🚫 Este pagamento foi feito para outro recebedor${receiverName ? `: ${receiverName}` : ""}.`;
+    case "scheduled":
+      return "🚫 Este pagamento está apenas agendado e ainda não foi pago.";
+    case "not_payment":
+      return "🚫 Este documento não parece ser um comprovante de pagamento.";
+    default:
+      return null;
+  }
+}
+
+export function getReceiverProfileMessage(profile: ReceiverProfile | null): string {
+  const help =
+    "Configure com:\n" +
+    "/recebedor nome Loja Exemplo LTDA\n" +
+    "/recebedor cnpj 12.345.678/0001-90\n" +
+    "/recebedor banco Itaú\n" +
+    "/recebedor chave sua-chave-pix\n" +
+    "/recebedor remover sua-chave-pix";
+
+  if (!profile) {
+    return "🏪 Nenhum recebedor cadastrado.\n\nOs comprovantes não serão conferidos contra o seu recebedor.\n\n" + help;
+  }
+
+  const keys = profile.pix_keys.length > 0 ? profile.pix_keys.map((k) => `• ${k}`).join("\n") : "Nenhuma";
+
+  return (
+    `🏪 Recebedor cadastrado\n\n` +
+    `Nome: ${profile.legal_name || "-"}\n` +
+    `CNPJ: ${profile.cnpj || "-"}\n` +
+    `Banco: ${profile.bank || "-"}\n` +
+    `Chaves PIX:\n${keys}\n\n` +
+    help
+  );
+}
@@ -0,0 +1,263 @@
+import sharp from "sharp";
+import { getTransactions, groupByMethod, PAYMENT_METHODS, Transaction } from "./database.js";
+import { getBusinessDay, getPeriodDays, getPreviousPeriod, Period } from "./businessday.js";
+import { getClientRanking } from "./clients.js";
+import { formatCurrency } from "./summary.js";
+import { PAYMENT_METHOD_LABELS } from "./labels.js";
+
+/** /relatorio: a PNG with charts of a period and a text caption */
+export interface Report {
+  image: Buffer;
+  caption: string;
+}
+
+interface BarRow {
+  label: string;
+  value: number;
+  detail: string;
+}
+
+const WIDTH = 1000;
+const MARGIN = 40;
+const FONT = "DejaVu Sans, Arial, sans-serif";
+const COLORS = {
+  background: "#ffffff",
+  text: "#1f2933",
+  muted: "#7b8794",
+  grid: "#e4e7eb",
+  bar: "#2f80ed",
+  hour: "#27ae60",
+  method: "#f2994a",
+  bank: "#9b51e0",
+  client: "#eb5757",
+  up: "#27ae60",
+  down: "#eb5757",
+};
+
+const TOP_CLIENTS = 8;
+const TOP_BANKS = 6;
+
+function escapeXml(text: string): string {
+  return text.replace(/[&<>"']/g, (c) => `&#${c.charCodeAt(0)};`);
+}
+
+function text(x: number, y: number, content: string, size: number, attrs: string = ""): string {
+  const fill = attrs.includes("fill=") ? "" : `fill="${COLORS.text}"`;
+  return `<text x="${x}" y="${y}" font-family="${FONT}" font-size="${size}" ${fill} ${attrs}>${escapeXml(content)}</text>`;
+}
+
+/** "R$ 1,2 mil" for axis labels */
+function formatCompactCurrency(value: number): string {
+  if (value >= 1000) return `R$ ${(value / 1000).toLocaleString("pt-BR", { maximumFractionDigits: 1 })} mil`;
+  return `R$ ${Math.round(value)}`;
+}
+
+/** "+12%" against the previous period; null when there is nothing to compare with */
+function formatChange(current: number, previous: number): string | null {
+  if (previous === 0) return null;
+  const change = Math.round(((current - previous) / previous) * 100);
+  return `${change > 0 ? "+" : ""}${change}%`;
+}
+
+/** Vertical bars with a max line, labels under every bar that fits */
+function columnChart(
+  y: number,
+  title: string,
+  labels: string[],
+  values: number[],
+  color: string,
+  formatMax: (value: number) => string
+): { svg: string; height: number } {
+  const chartHeight = 180;
+  const top = y + 30;
+  const width = WIDTH - 2 * MARGIN;
+  const max = Math.max(...values, 0);
+  const slot = width / Math.max(values.length, 1);
+  const barWidth = Math.max(2, slot * 0.7);
+  // Keep labels from overlapping on long periods
+  const labelEvery = Math.ceil(values.length / Math.floor(width / 38));
+
+  const parts = [
+    text(MARGIN, y + 16, title, 18, 'font-weight="bold"'),
+    `<line x1="${MARGIN}" y1="${top + chartHeight}" x2="${WIDTH - MARGIN}" y2="${top + chartHeight}" stroke="${COLORS.grid}" stroke-width="2"/>`,
+  ];
+
+  if (max > 0) {
+    parts.push(
+      `<line x1="${MARGIN}" y1="${top}" x2="${WIDTH - MARGIN}" y2="${top}" stroke="${COLORS.grid}" stroke-dasharray="4 4"/>`,
+      text(WIDTH - MARGIN, top - 4, formatMax(max), 12, `fill="${COLORS.muted}" text-anchor="end"`)
+    );
+  }
+
+  values.forEach((value, i) => {
+    const barHeight = max > 0 ? (value / max) * chartHeight : 0;
+    const x = MARGIN + i * slot + (slot - barWidth) / 2;
+    if (barHeight > 0) {
+      parts.push(
+        `<rect x="${x.toFixed(1)}" y="${(top + chartHeight - barHeight).toFixed(1)}" width="${barWidth.toFixed(1)}" height="${barHeight.toFixed(1)}" fill="${color}" rx="2"/>`
+      );
+    }
+    if (i % labelEvery === 0) {
+      parts.push(text(x + barWidth / 2, top + chartHeight + 18, labels[i], 12, `fill="${COLORS.muted}" text-anchor="middle"`));
+    }
+  });
+
+  return { svg: parts.join("\n"), height: chartHeight + 60 };
+}
+
+/** Horizontal bars, one row per item, largest first */
+function barList(x: number, y: number, width: number, title: string, rows: BarRow[], color: string): { svg: string; height: number } {
+  const rowHeight = 44;
+  const max = Math.max(...rows.map((r) => r.value), 0);
+  const parts = [text(x, y + 16, title, 18, 'font-weight="bold"')];
+
+  if (rows.length === 0) {
+    parts.push(text(x, y + 50, "Sem dados", 14, `fill="${COLORS.muted}"`));
+  }
+
+  rows.forEach((row, i) => {
+    const rowTop = y + 34 + i * rowHeight;
+    const barWidth = max > 0 ? Math.max(2, (row.value / max) * width) : 2;
+    parts.push(
+      text(x, rowTop + 14, row.label.length > 38 ? `${row.label.slice(0, 37)}…` : row.label, 14),
+      text(x + width, rowTop + 14, row.detail, 13, `fill="${COLORS.muted}" text-anchor="end"`),
+      `<rect x="${x}" y="${rowTop + 20}" width="${barWidth.toFixed(1)}" height="12" fill="${color}" rx="3"/>`
+    );
+  });
+
+  return { svg: parts.join("\n"), height: 34 + Math.max(rows.length, 1) * rowHeight + 10 };
+}
+
+function toRows(groups: Map<string, { total: number; count: number }>, total: number, limit: number): BarRow[] {
+  return [...groups.entries()]
+    .sort((a, b) => b[1].total - a[1].total)
+    .slice(0, limit)
+    .map(([label, stats]) => ({
+      label,
+      value: stats.total,
+      detail: `${formatCurrency(stats.total)} · ${Math.round((stats.total / total) * 100)}%`,
+    }));
+}
+
+/** When a sale happened: payment time on the receipt when known */
+function getSaleTime(t: Transaction): Date {
+  return new Date(t.paid_at || t.created_at!);
+}
+
+/**
+ * Charts of a period: revenue per day, sales per hour of day, payment methods, banks and top
+ * clients, with the average ticket and the change against the previous period.
+ * Null when the period has no sales.
+ */
+export async function buildReport(chatId: number, period: Period): Promise<Report | null> {
+  const transactions = await getTransactions(chatId, period);
+  if (transactions.length === 0) return null;
+
+  const previousPeriod = getPreviousPeriod(period);
+  const previous = await getTransactions(chatId, previousPeriod);
+  const ranking = await getClientRanking(chatId, period);
+  const { timeZone } = period.settings;
+
+  const total = transactions.reduce((sum, t) => sum + t.amount, 0);
+  const count = transactions.length;
+  const ticket = total / count;
+  const previousTotal = previous.reduce((sum, t) => sum + t.amount, 0);
+  const previousTicket = previous.length > 0 ? previousTotal / previous.length : 0;
+
+  // Revenue per business day
+  const days = getPeriodDays(period);
+  const byDay = new Map(days.map((day) => [day, 0]));
+  for (const t of transactions) {
+    const day = getBusinessDay(period.settings, new Date(t.created_at!)).date;
+    byDay.set(day, (byDay.get(day) ?? 0) + t.amount);
+  }
+
+  // Sales per local hour of day
+  const byHour = new Array(24).fill(0);
+  for (const t of transactions) {
+    const hour = parseInt(getSaleTime(t).toLocaleString("en-US", { hour: "numeric", hourCycle: "h23", timeZone }), 10);
+    byHour[hour % 24]++;
+  }
+
+  const byMethod = groupByMethod(transactions);
+  const methods = new Map(
+    PAYMENT_METHODS.filter((m) => byMethod[m]).map((m) => [PAYMENT_METHOD_LABELS[m], byMethod[m]!])
+  );
+
+  const banks = new Map<string, { total: number; count: number }>();
+  for (const t of transactions) {
+    const bank = t.payer_bank || t.bank_detected || "Não identificado";
+    const stats = banks.get(bank) ?? { total: 0, count: 0 };
+    stats.total += t.amount;
+    stats.count++;
+    banks.set(bank, stats);
+  }
+
+  const clientRows: BarRow[] = ranking.slice(0, TOP_CLIENTS).map((s) => ({
+    label: s.client.name,
+    value: s.total,
+    detail: `${formatCurrency(s.total)} · ${s.count}x`,
+  }));
+
+  // Header: totals and the change against the previous period
+  const totalChange = formatChange(total, previousTotal);
+  const ticketChange = formatChange(ticket, previousTicket);
+  const changeColor = (change: string | null) => (change?.startsWith("-") ? COLORS.down : COLORS.up);
+  const parts = [
+    text(MARGIN, 50, `Relatório - ${period.label}`, 28, 'font-weight="bold"'),
+    text(MARGIN, 95, formatCurrency(total), 34, 'font-weight="bold"'),
+    text(MARGIN, 122, `${count} vendas · ticket médio ${formatCurrency(ticket)}`, 16, `fill="${COLORS.muted}"`),
+  ];
+  if (totalChange) {
+    parts.push(
+      text(WIDTH - MARGIN, 95, `${totalChange} no total`, 20, `fill="${changeColor(totalChange)}" text-anchor="end"`),
+      text(
+        WIDTH - MARGIN,
+        122,
+        `${ticketChange} no ticket · anterior ${formatCurrency(previousTotal)}`,
+        14,
+        `fill="${COLORS.muted}" text-anchor="end"`
+      )
+    );
+  }
+
+  let y = 160;
+  const dayLabels = days.map((day) => `${day.slice(8)}/${day.slice(5, 7)}`);
+  const dailyChart = columnChart(y, "Faturamento por dia", dayLabels, [...byDay.values()], COLORS.bar, formatCompactCurrency);
+  parts.push(dailyChart.svg);
+  y += dailyChart.height;
+
+  const hourLabels = byHour.map((_, hour) => `${hour}h`);
+  const hourChart = columnChart(y, "Vendas por hora", hourLabels, byHour, COLORS.hour, (max) => `${max} vendas`);
+  parts.push(hourChart.svg);
+  y += hourChart.height;
+
+  const columnWidth = (WIDTH - 3 * MARGIN) / 2;
+  const methodList = barList(MARGIN, y, columnWidth, "Formas de pagamento", toRows(methods, total, PAYMENT_METHODS.length), COLORS.method);
+  const bankList = barList(2 * MARGIN + columnWidth, y, columnWidth, "Bancos", toRows(banks, total, TOP_BANKS), COLORS.bank);
+  parts.push(methodList.svg, bankList.svg);
+  y += Math.max(methodList.height, bankList.height);
+
+  const clientList = barList(MARGIN, y, WIDTH - 2 * MARGIN, "Principais clientes", clientRows, COLORS.client);
+  parts.push(clientList.svg);
+  y += clientList.height + MARGIN / 2;
+
+  const svg =
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${WIDTH}" height="${y}" viewBox="0 0 ${WIDTH} ${y}">` +
+    `<rect width="100%" height="100%" fill="${COLORS.background}"/>${parts.join("\n")}</svg>`;
+  const image = await sharp(Buffer.from(svg)).png().toBuffer();
+
+  // Caption: the same numbers in text, under Telegram's 1024-character caption limit
+  const caption = [
+    `📊 Relatório ${period.label}`,
+    `💰 Total: ${formatCurrency(total)}${totalChange ? ` (${totalChange})` : ""}`,
+    `🧾 ${count} vendas`,
+    `🎟️ Ticket médio: ${formatCurrency(ticket)}${ticketChange ? ` (${ticketChange})` : ""}`,
+    `↩️ Período anterior (${previousPeriod.label}): ${formatCurrency(previousTotal)} em ${previous.length} vendas`,
+  ];
+  if (ranking.length > 0) {
+    caption.push(`👑 Maior cliente: ${ranking[0].client.name} (${formatCurrency(ranking[0].total)})`);
+  }
+
+  return { image, caption: caption.join("\n") };
+}
@@ -0,0 +1,331 @@
+import { Api, GrammyError, InputFile } from "grammy";
+import { supabase, getStats, MAX_ROWS_PER_REQUEST } from "./database.js";
+import {
+  addDays,
+  formatCutoff,
+  getBusinessDay,
+  getDaySettings,
+  getLocalTimeOn,
+  getMonthPeriod,
+  getRangePeriod,
+  getWeekPeriod,
+  parseCutoff,
+  DaySettings,
+  Period,
+} from "./businessday.js";
+import { getPeriodSummaryMessage } from "./summary.js";
+import { buildReport } from "./report.js";
+import { getDailyGoalResult } from "./goals.js";
+
+export type ScheduleKind = "daily" | "weekly" | "monthly";
+
+/** A summary a chat receives on its own, stored in summary_schedules */
+export interface SummarySchedule {
+  id: number;
+  chat_id: number;
+  kind: ScheduleKind;
+  send_time: string; // "HH:MM" (Postgres returns "HH:MM:SS") in the chat's timezone
+  enabled: boolean;
+  last_sent_for: string | null; // first day of the last period sent, "YYYY-MM-DD"
+  last_sent_at: string | null;
+  disabled_reason: string | null;
+}
+
+/** The send of a schedule in the current day, week or month */
+interface ScheduleSlot {
+  dueAt: Date;
+  period: Period; // what the summary covers
+}
+
+export const SCHEDULE_KINDS: ScheduleKind[] = ["daily", "weekly", "monthly"];
+
+const SCHEDULE_LABELS: Record<ScheduleKind, string> = {
+  daily: "Resumo diário",
+  weekly: "Resumo semanal",
+  monthly: "Resumo mensal",
+};
+
+// Weekly and monthly summaries go out the morning after the period closes
+const DEFAULT_SEND_TIME = 8 * 60;
+
+// Telegram allows about 30 messages per second across all chats; stay below it
+const SEND_INTERVAL_MS = 40;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/** Default time for a new schedule; the daily one goes out in the last minute of the business day */
+export function getDefaultSendTime(kind: ScheduleKind, settings: DaySettings): number {
+  return kind === "daily" ? (settings.cutoffMinutes + 24 * 60 - 1) % (24 * 60) : DEFAULT_SEND_TIME;
+}
+
+/**
+ * When a schedule is due in the current day, week or month, and the period it reports.
+ * A daily summary set to the first half of the business day (a morning time, with the day
+ * starting at midnight) reports the previous day; later times report the day in progress.
+ * Weekly summaries go out on Monday with the previous week, monthly on the 1st with the previous month.
+ */
+function getScheduleSlot(
+  schedule: Pick<SummarySchedule, "kind" | "send_time">,
+  settings: DaySettings,
+  now: Date
+): ScheduleSlot {
+  const today = getBusinessDay(settings, now);
+  const sendTime = parseCutoff(schedule.send_time.slice(0, 5)) ?? 0;
+  // Minutes into the business day; a time before the cutoff belongs to the end of the day
+  const offset = (sendTime - settings.cutoffMinutes + 24 * 60) % (24 * 60);
+  const dueOn = (date: string) => getLocalTimeOn(settings, date, settings.cutoffMinutes + offset);
+
+  if (schedule.kind === "daily") {
+    const day = offset < 12 * 60 ? addDays(today.date, -1) : today.date;
+    return { dueAt: dueOn(today.date), period: getRangePeriod(settings, day, day) };
+  }
+
+  if (schedule.kind === "weekly") {
+    const monday = getWeekPeriod(settings, now).from;
+    return {
+      dueAt: dueOn(monday),
+      period: getRangePeriod(settings, addDays(monday, -7), addDays(monday, -1)),
+    };
+  }
+
+  const first = `${today.date.slice(0, 8)}01`;
+  const previous = addDays(first, -1);
+  return {
+    dueAt: dueOn(first),
+    period: getMonthPeriod(settings, parseInt(previous.slice(0, 4), 10), parseInt(previous.slice(5, 7), 10)),
+  };
+}
+
+export async function getSchedules(chatId: number): Promise<SummarySchedule[]> {
+  const { data, error } = await supabase.from("summary_schedules").select("*").eq("chat_id", chatId);
+
+  if (error) throw error;
+  return data ?? [];
+}
+
+/**
+ * Turn a summary on at a time of day (minutes after midnight). A slot that already passed
+ * today (or this week or month) is marked as sent, so turning a summary on doesn't
+ * immediately send an old one.
+ */
+export async function setSchedule(chatId: number, kind: ScheduleKind, sendTime: number): Promise<SummarySchedule> {
+  const now = new Date();
+  const settings = await getDaySettings(chatId);
+  const existing = (await getSchedules(chatId)).find((s) => s.kind === kind);
+
+  const schedule: Omit<SummarySchedule, "id" | "last_sent_at"> & { updated_at: string } = {
+    chat_id: chatId,
+    kind,
+    send_time: formatCutoff(sendTime),
+    enabled: true,
+    last_sent_for: existing?.last_sent_for ?? null,
+    disabled_reason: null,
+    updated_at: now.toISOString(),
+  };
+
+  const slot = getScheduleSlot(schedule, settings, now);
+  if (slot.dueAt <= now && (!schedule.last_sent_for || schedule.last_sent_for < slot.period.from)) {
+    schedule.last_sent_for = slot.period.from;
+  }
+
+  const { data, error } = await supabase
+    .from("summary_schedules")
+    .upsert(schedule, { onConflict: "chat_id,kind" })
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+export async function disableSchedule(chatId: number, kind: ScheduleKind): Promise<void> {
+  const { error } = await supabase
+    .from("summary_schedules")
+    .update({ enabled: false, disabled_reason: null, updated_at: new Date().toISOString() })
+    .eq("chat_id", chatId)
+    .eq("kind", kind);
+
+  if (error) throw error;
+}
+
+/** Create a daily summary for a chat that never configured one (the admin chat, at startup) */
+export async function ensureDailySchedule(chatId: number): Promise<void> {
+  const existing = (await getSchedules(chatId)).find((s) => s.kind === "daily");
+  if (existing) return;
+
+  const settings = await getDaySettings(chatId);
+  await setSchedule(chatId, "daily", getDefaultSendTime("daily", settings));
+}
+
+/** Record the send of a period; false when another tick (or an earlier run) already sent it */
+async function claimSchedule(schedule: SummarySchedule, periodStart: string): Promise<boolean> {
+  const { data } = await supabase
+    .from("summary_schedules")
+    .update({ last_sent_for: periodStart, last_sent_at: new Date().toISOString() })
+    .eq("id", schedule.id)
+    .eq("enabled", true)
+    .or(`last_sent_for.is.null,last_sent_for.lt.${periodStart}`)
+    .select("id");
+
+  return (data?.length ?? 0) > 0;
+}
+
+/** Give a claimed period back after a failed send, so the next tick retries it */
+async function releaseSchedule(schedule: SummarySchedule): Promise<void> {
+  const { error } = await supabase
+    .from("summary_schedules")
+    .update({ last_sent_for: schedule.last_sent_for, last_sent_at: schedule.last_sent_at })
+    .eq("id", schedule.id);
+
+  if (error) console.error(`[schedules] Failed to release schedule ${schedule.id}:`, error);
+}
+
+/** Turn off every summary of a chat the bot can no longer write to */
+async function disableChatSchedules(chatId: number, reason: string): Promise<void> {
+  const { error } = await supabase
+    .from("summary_schedules")
+    .update({ enabled: false, disabled_reason: reason, updated_at: new Date().toISOString() })
+    .eq("chat_id", chatId);
+
+  if (error) console.error(`[schedules] Failed to disable chat ${chatId}:`, error);
+}
+
+/** Blocked by the user, removed from the group, deleted account or chat */
+function isChatUnreachable(error: unknown): boolean {
+  if (!(error instanceof GrammyError)) return false;
+  return error.error_code === 403 || (error.error_code === 400 && /chat not found/i.test(error.description));
+}
+
+async function sendWithRetry(send: () => Promise<unknown>): Promise<void> {
+  try {
+    await send();
+  } catch (error) {
+    // Flood control: wait as long as Telegram asks, then try once more
+    if (error instanceof GrammyError && error.error_code === 429) {
+      await sleep((error.parameters.retry_after ?? 1) * 1000);
+      await send();
+      return;
+    }
+    throw error;
+  }
+}
+
+/** Daily summaries are text; weekly and monthly ones are the /relatorio charts, when there were sales */
+async function sendSummary(api: Api, schedule: SummarySchedule, period: Period): Promise<void> {
+  const title = `🔔 ${SCHEDULE_LABELS[schedule.kind]}`;
+
+  if (schedule.kind !== "daily") {
+    const report = await buildReport(schedule.chat_id, period);
+    if (report) {
+      const photo = new InputFile(report.image, "relatorio.png");
+      await sendWithRetry(() => api.sendPhoto(schedule.chat_id, photo, { caption: `${title}\n\n${report.caption}` }));
+      return;
+    }
+  }
+
+  let summary = await getPeriodSummaryMessage(schedule.chat_id, period);
+  if (schedule.kind === "daily") {
+    const { total } = await getStats(schedule.chat_id, period);
+    const goalLines = await getDailyGoalResult(schedule.chat_id, period.from, total);
+    if (goalLines.length > 0) summary += `\n\n${goalLines.join("\n")}`;
+  }
+  await sendWithRetry(() => api.sendMessage(schedule.chat_id, `${title}\n\n${summary}`));
+}
+
+async function getEnabledSchedules(): Promise<SummarySchedule[]> {
+  const schedules: SummarySchedule[] = [];
+
+  for (let from = 0; ; from += MAX_ROWS_PER_REQUEST) {
+    const { data, error } = await supabase
+      .from("summary_schedules")
+      .select("*")
+      .eq("enabled", true)
+      .order("id", { ascending: true })
+      .range(from, from + MAX_ROWS_PER_REQUEST - 1);
+
+    if (error) throw error;
+    schedules.push(...(data ?? []));
+    if (!data || data.length < MAX_ROWS_PER_REQUEST) return schedules;
+  }
+}
+
+let sending = false;
+
+/**
+ * Cron tick: send every summary that is due and wasn't sent yet for its period, one message
+ * at a time. Returns how many were sent. A tick still running when the next one starts makes
+ * that one a no-op; across processes, claimSchedule keeps a period from going out twice.
+ */
+export async function sendDueSummaries(api: Api): Promise<number> {
+  if (sending) return 0;
+  sending = true;
+
+  let sent = 0;
+  const unreachable = new Set<number>();
+
+  try {
+    const now = new Date();
+
+    for (const schedule of await getEnabledSchedules()) {
+      if (unreachable.has(schedule.chat_id)) continue;
+
+      const settings = await getDaySettings(schedule.chat_id);
+      const slot = getScheduleSlot(schedule, settings, now);
+      if (slot.dueAt > now) continue;
+      if (schedule.last_sent_for && schedule.last_sent_for >= slot.period.from) continue;
+      if (!(await claimSchedule(schedule, slot.period.from))) continue;
+
+      try {
+        await sendSummary(api, schedule, slot.period);
+        sent++;
+      } catch (error) {
+        if (isChatUnreachable(error)) {
+          console.log(`[schedules] Chat ${schedule.chat_id} is unreachable, disabling its summaries`);
+          unreachable.add(schedule.chat_id);
+          await disableChatSchedules(schedule.chat_id, "blocked");
+        } else {
+          console.error(`[schedules] Failed to send ${schedule.kind} summary to ${schedule.chat_id}:`, error);
+          await releaseSchedule(schedule);
+        }
+      }
+
+      await sleep(SEND_INTERVAL_MS);
+    }
+  } finally {
+    sending = false;
+  }
+
+  return sent;
+}
+
+/** "às 22:00", "segundas às 08:00", "dia 1 às 08:00" */
+function formatSchedule(schedule: SummarySchedule): string {
+  const time = schedule.send_time.slice(0, 5);
+  if (schedule.kind === "weekly") return `segundas às ${time}`;
+  if (schedule.kind === "monthly") return `dia 1 às ${time}`;
+  return `às ${time}`;
+}
+
+export async function getSchedulesMessage(chatId: number): Promise<string> {
+  const schedules = await getSchedules(chatId);
+
+  const lines = SCHEDULE_KINDS.map((kind) => {
+    const schedule = schedules.find((s) => s.kind === kind);
+    let state = "desligado";
+    if (schedule?.enabled) {
+      state = formatSchedule(schedule);
+    } else if (schedule?.disabled_reason === "blocked") {
+      state = "desligado (o bot não conseguiu enviar)";
+    }
+    return `${SCHEDULE_LABELS[kind]}: ${state}`;
+  });
+
+  return (
+    `🔔 Resumos automáticos\n\n${lines.join("\n")}\n\n` +
+    `Configure com:\n` +
+    `/resumos diario 22:00 (antes do meio do dia envia o dia anterior)\n` +
+    `/resumos semanal 08:00 (segundas, relatório da semana anterior)\n` +
+    `/resumos mensal 08:00 (dia 1, relatório do mês anterior)\n` +
+    `/resumos diario off (desligar)`
+  );
+}
@@ -0,0 +1,25 @@
+import { supabase } from "./database.js";
+import { listMigrations } from "./migrate.js";
+
+/**
+ * Startup check: the database must have every migration the code ships with.
+ * Reads schema_migrations through Supabase, so the bot itself doesn't need DATABASE_URL.
+ */
+export async function checkSchemaVersion(): Promise<string> {
+  const migrations = await listMigrations();
+  const { data, error } = await supabase.from("schema_migrations").select("version");
+
+  if (error) {
+    throw new Error(`Could not read schema_migrations (${error.message}). Run: npm run migrate up`);
+  }
+
+  const applied = new Set((data ?? []).map((row) => row.version));
+  const pending = migrations.filter((m) => !applied.has(m.version));
+
+  if (pending.length > 0) {
+    const list = pending.map((m) => `${m.version}_${m.name}`).join(", ");
+    throw new Error(`Database schema is out of date, pending migrations: ${list}. Run: npm run migrate up`);
+  }
+
+  return migrations[migrations.length - 1]?.version ?? "none";
+}
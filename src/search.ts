@@ -0,0 +1,202 @@
+import { supabase, PaymentMethod, Transaction } from "./database.js";
+import { parseBRLAmount, parsePaymentMethodName } from "./parser.js";
+import { getClientKey } from "./clients.js";
+import { formatTimeInZone, getBusinessDay, getBusinessDayOf, getDaySettings, parseDateArg } from "./businessday.js";
+import { formatCurrency } from "./summary.js";
+import { formatPaymentMethod } from "./labels.js";
+
+/** A parsed /buscar query; every filter given must match */
+export interface SearchQuery {
+  text: string | null; // client name
+  amount: number | null; // exact amount
+  minAmount: number | null;
+  maxAmount: number | null;
+  bank: string | null;
+  method: PaymentMethod | null;
+  from: string | null; // first business day, "YYYY-MM-DD"
+  to: string | null; // last business day, inclusive
+}
+
+export interface SearchResultPage {
+  transactions: Transaction[];
+  total: number;
+  page: number;
+  pageCount: number;
+}
+
+export const SEARCH_RESULTS_PER_PAGE = 10;
+
+export const SEARCH_HELP =
+  "Use: /buscar <termos>\n\n" +
+  "Exemplos:\n" +
+  "/buscar maria - cliente\n" +
+  "/buscar 150 - valor exato\n" +
+  "/buscar >500 ou <100 - acima ou abaixo de um valor\n" +
+  "/buscar banco:nubank\n" +
+  "/buscar forma:dinheiro\n" +
+  "/buscar desde:01/09 ate:15/09\n\n" +
+  "Combine à vontade: /buscar >500 banco:nubank desde:01/09";
+
+/** Keep only what is safe inside a PostgREST filter ("a,b" and parentheses would break it) */
+function toFilterValue(value: string): string {
+  return value.replace(/[^\p{L}\p{N} ]+/gu, " ").trim();
+}
+
+/**
+ * "maria >500 banco:nubank desde:01/09" -> filters. Returns an error message for a term
+ * that can't be understood, so the user isn't shown results for a different search.
+ */
+export async function parseSearchQuery(chatId: number, query: string): Promise<SearchQuery | string> {
+  const today = getBusinessDay(await getDaySettings(chatId));
+  const result: SearchQuery = {
+    text: null,
+    amount: null,
+    minAmount: null,
+    maxAmount: null,
+    bank: null,
+    method: null,
+    from: null,
+    to: null,
+  };
+  const words: string[] = [];
+
+  for (const term of query.trim().split(/\s+/).filter(Boolean)) {
+    const filter = term.match(/^(banco|forma|desde|ate|até):(.+)$/i);
+    const comparison = term.match(/^([<>])=?(.+)$/);
+
+    if (filter) {
+      const [, key, value] = filter;
+      switch (key.toLowerCase()) {
+        case "banco":
+          result.bank = toFilterValue(value);
+          break;
+        case "forma":
+          result.method = parsePaymentMethodName(value);
+          if (!result.method) return `❌ Forma de pagamento desconhecida: ${value}`;
+          break;
+        default: {
+          const date = parseDateArg(value, today);
+          if (!date) return `❌ Data inválida: ${value}. Use dd/mm ou dd/mm/aaaa.`;
+          if (key.toLowerCase() === "desde") result.from = date;
+          else result.to = date;
+        }
+      }
+    } else if (comparison) {
+      const amount = parseBRLAmount(comparison[2]);
+      if (amount === null) return `❌ Valor inválido: ${term}`;
+      if (comparison[1] === ">") result.minAmount = amount;
+      else result.maxAmount = amount;
+    } else if (/^(R\$)?\d[\d.,]*$/i.test(term) && parseBRLAmount(term) !== null) {
+      result.amount = parseBRLAmount(term);
+    } else {
+      words.push(term);
+    }
+  }
+
+  result.text = words.length > 0 ? toFilterValue(words.join(" ")) || null : null;
+  return result;
+}
+
+export async function searchTransactions(
+  chatId: number,
+  search: SearchQuery,
+  page: number = 0
+): Promise<SearchResultPage> {
+  let query = supabase
+    .from("transactions")
+    .select("*", { count: "exact" })
+    .eq("chat_id", chatId)
+    .is("deleted_at", null);
+
+  if (search.text) {
+    // Match the name as read from the receipt, and every spelling grouped into the same client
+    const { data: clients } = await supabase
+      .from("clients")
+      .select("id")
+      .eq("chat_id", chatId)
+      .ilike("search_key", `%${getClientKey(search.text)}%`);
+
+    const clientIds = (clients ?? []).map((c) => c.id);
+    const byClient = clientIds.length > 0 ? `,client_id.in.(${clientIds.join(",")})` : "";
+    query = query.or(`client_name.ilike.%${search.text}%${byClient}`);
+  }
+  if (search.amount !== null) query = query.eq("amount", search.amount);
+  if (search.minAmount !== null) query = query.gt("amount", search.minAmount);
+  if (search.maxAmount !== null) query = query.lt("amount", search.maxAmount);
+  if (search.bank) query = query.or(`bank_detected.ilike.%${search.bank}%,payer_bank.ilike.%${search.bank}%`);
+  if (search.method) query = query.eq("payment_method", search.method);
+
+  if (search.from || search.to) {
+    const settings = await getDaySettings(chatId);
+    if (search.from) query = query.gte("created_at", getBusinessDayOf(settings, search.from).start.toISOString());
+    if (search.to) query = query.lt("created_at", getBusinessDayOf(settings, search.to).end.toISOString());
+  }
+
+  const offset = page * SEARCH_RESULTS_PER_PAGE;
+  const { data, count, error } = await query
+    .order("created_at", { ascending: false })
+    .order("id", { ascending: false })
+    .range(offset, offset + SEARCH_RESULTS_PER_PAGE - 1);
+
+  if (error) throw error;
+
+  const total = count ?? 0;
+  return {
+    transactions: data ?? [],
+    total,
+    page,
+    pageCount: Math.max(1, Math.ceil(total / SEARCH_RESULTS_PER_PAGE)),
+  };
+}
+
+export async function getSearchResultsMessage(chatId: number, query: string, results: SearchResultPage): Promise<string> {
+  if (results.total === 0) {
+    return `🔎 Nada encontrado para "${query}".`;
+  }
+
+  const { timeZone } = await getDaySettings(chatId);
+  const offset = results.page * SEARCH_RESULTS_PER_PAGE;
+
+  const lines = results.transactions.map((t, i) => {
+    const when = new Date(t.paid_at || t.created_at!);
+    const date = when.toLocaleDateString("pt-BR", { day: "2-digit", month: "2-digit", year: "2-digit", timeZone });
+    const details = [formatPaymentMethod(t), t.client_name, t.payer_bank || t.bank_detected].filter(Boolean);
+    const pending = t.status === "pending" ? " ⏳" : "";
+    return `${offset + i + 1}. ${date} ${formatTimeInZone(when, timeZone)} - ${formatCurrency(t.amount)} (${details.join(" - ")})${pending}`;
+  });
+
+  const pageInfo = results.pageCount > 1 ? ` - página ${results.page + 1}/${results.pageCount}` : "";
+  return `🔎 "${query}": ${results.total} resultado(s)${pageInfo}\n\n${lines.join("\n")}\n\nToque no número para ver detalhes.`;
+}
+
+const SOURCE_LABELS: Record<string, string> = {
+  receipt: "🧾 Comprovante",
+  manual: "✍️ Lançamento manual",
+  notification: "🔔 Notificação do banco",
+};
+
+/** Everything stored about one transaction */
+export async function getTransactionDetailsMessage(chatId: number, t: Transaction): Promise<string> {
+  const { timeZone } = await getDaySettings(chatId);
+  const formatWhen = (iso: string) => {
+    const date = new Date(iso);
+    return `${date.toLocaleDateString("pt-BR", { timeZone })} ${formatTimeInZone(date, timeZone)}`;
+  };
+
+  const lines = [
+    `💰 ${formatCurrency(t.amount)} - ${formatPaymentMethod(t)}`,
+    `📅 Registrada em ${formatWhen(t.created_at!)}`,
+  ];
+  if (t.paid_at) lines.push(`🕐 Paga em ${formatWhen(t.paid_at)}`);
+  if (t.client_name) lines.push(`👤 ${t.client_name}${t.payer_document ? ` (${t.payer_document})` : ""}`);
+  if (t.payer_bank || t.bank_detected) lines.push(`🏦 ${t.payer_bank || t.bank_detected}`);
+  if (t.receiver_name) {
+    lines.push(`➡️ ${t.receiver_name}${t.receiver_institution ? ` - ${t.receiver_institution}` : ""}`);
+  }
+  if (t.e2e_id) lines.push(`🔑 ${t.e2e_id}`);
+  if (t.note) lines.push(`📝 ${t.note}`);
+  lines.push(SOURCE_LABELS[t.source ?? "receipt"]);
+  if (t.status === "pending") lines.push("⏳ Aguardando revisão");
+
+  return `📄 Transação\n\n${lines.join("\n")}`;
+}
@@ -0,0 +1,390 @@
+import { supabase, Transaction, PaymentMethod, MAX_ROWS_PER_REQUEST } from "./database.js";
+import { formatTimeInZone, getDaySettings } from "./businessday.js";
+import { parseBRLAmount, parsePaymentMethodName } from "./parser.js";
+import { formatCurrency } from "./summary.js";
+import { PAYMENT_METHOD_LABELS } from "./labels.js";
+import { Actor } from "./audit.js";
+
+/** A cash register shift, from /abrircaixa to /fecharcaixa */
+export interface Shift {
+  id: number;
+  chat_id: number;
+  // A reopened shift takes corrections but no new receipts, until it is closed again
+  status: "open" | "closed" | "reopened";
+  opening_cash: number; // change fund in the drawer when the shift opened
+  opened_at: string;
+  opened_by_id: number | null;
+  opened_by_name: string | null;
+  closed_at: string | null;
+  closed_by_id: number | null;
+  closed_by_name: string | null;
+  sales_count: number | null;
+  expected: ShiftTotals | null; // per closing bucket, computed from the shift's transactions
+  declared: ShiftTotals | null; // per closing bucket, as counted by the operator
+  reopened_at: string | null;
+  reopened_by_name: string | null;
+}
+
+// Credit and debit are counted together from the card machine's report
+export type ClosingBucket = Exclude<PaymentMethod, "credito" | "debito"> | "cartao";
+
+export type ShiftTotals = Partial<Record<ClosingBucket, number>>;
+
+const CLOSING_BUCKETS: ClosingBucket[] = ["dinheiro", "cartao", "pix", "ted", "doc", "boleto", "outro"];
+
+const BUCKET_LABELS: Record<ClosingBucket, string> = {
+  dinheiro: "💵 Dinheiro",
+  cartao: "💳 Cartão",
+  pix: `⚡ ${PAYMENT_METHOD_LABELS.pix}`,
+  ted: `🏦 ${PAYMENT_METHOD_LABELS.ted}`,
+  doc: `🏦 ${PAYMENT_METHOD_LABELS.doc}`,
+  boleto: `🧾 ${PAYMENT_METHOD_LABELS.boleto}`,
+  outro: `📄 ${PAYMENT_METHOD_LABELS.outro}`,
+};
+
+// Closed shifts listed by /reabrircaixa
+const REOPENABLE_SHIFTS_LISTED = 10;
+
+/** A transaction of a closed shift was about to change; the shift must be reopened first */
+export class ShiftClosedError extends Error {
+  constructor(public readonly shiftId: number) {
+    super(`Transaction belongs to closed shift ${shiftId}`);
+    this.name = "ShiftClosedError";
+  }
+}
+
+function toBucket(method: PaymentMethod | undefined): ClosingBucket {
+  if (method === "credito" || method === "debito") return "cartao";
+  return method ?? "pix";
+}
+
+function roundCents(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+export async function getOpenShift(chatId: number): Promise<Shift | null> {
+  const { data, error } = await supabase
+    .from("shifts")
+    .select("*")
+    .eq("chat_id", chatId)
+    .eq("status", "open")
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+}
+
+/** The id new transactions of a chat are attached to, null outside a shift */
+export async function getOpenShiftId(chatId: number): Promise<number | null> {
+  return (await getOpenShift(chatId))?.id ?? null;
+}
+
+export async function getShift(chatId: number, shiftId: number): Promise<Shift | null> {
+  const { data, error } = await supabase
+    .from("shifts")
+    .select("*")
+    .eq("chat_id", chatId)
+    .eq("id", shiftId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+}
+
+/** The chat's latest closed and reopened shifts, newest first */
+async function getRecentClosedShifts(chatId: number): Promise<Shift[]> {
+  const { data, error } = await supabase
+    .from("shifts")
+    .select("*")
+    .eq("chat_id", chatId)
+    .in("status", ["closed", "reopened"])
+    .order("opened_at", { ascending: false })
+    .limit(REOPENABLE_SHIFTS_LISTED);
+
+  if (error) throw error;
+  return data ?? [];
+}
+
+/** Open a shift; null when the chat already has one open */
+export async function openShift(chatId: number, actor: Actor, openingCash: number): Promise<Shift | null> {
+  const { data, error } = await supabase
+    .from("shifts")
+    .insert({
+      chat_id: chatId,
+      opening_cash: openingCash,
+      opened_by_id: actor.userId,
+      opened_by_name: actor.name,
+    })
+    .select()
+    .single();
+
+  // 23505: the unique index on the chat's open shift
+  if (error?.code === "23505") return null;
+  if (error) throw error;
+  return data;
+}
+
+/** Confirmed and pending transactions of a shift */
+async function getShiftTransactions(shiftId: number): Promise<Transaction[]> {
+  const rows: Transaction[] = [];
+
+  for (let offset = 0; ; offset += MAX_ROWS_PER_REQUEST) {
+    const { data, error } = await supabase
+      .from("transactions")
+      .select("amount, payment_method, status")
+      .eq("shift_id", shiftId)
+      .is("deleted_at", null)
+      .order("id", { ascending: true })
+      .range(offset, offset + MAX_ROWS_PER_REQUEST - 1);
+
+    if (error) throw error;
+    rows.push(...((data ?? []) as Transaction[]));
+    if (!data || data.length < MAX_ROWS_PER_REQUEST) return rows;
+  }
+}
+
+/** What should be in each bucket: the shift's confirmed sales, plus the change fund in cash */
+function getExpectedTotals(shift: Shift, transactions: Transaction[]): ShiftTotals {
+  const expected: ShiftTotals = {};
+  if (shift.opening_cash > 0) expected.dinheiro = shift.opening_cash;
+
+  for (const t of transactions) {
+    if (t.status !== "confirmed") continue;
+    const bucket = toBucket(t.payment_method);
+    expected[bucket] = roundCents((expected[bucket] ?? 0) + t.amount);
+  }
+
+  return expected;
+}
+
+/**
+ * Counted amounts typed after /fecharcaixa: "dinheiro 520,00 cartao 1.430,00 pix 300".
+ * "credito" and "debito" add up into the card bucket. Null when anything can't be read.
+ */
+export function parseDeclaredTotals(text: string): ShiftTotals | null {
+  const words = text.trim().split(/\s+/).filter(Boolean);
+  if (words.length === 0 || words.length % 2 !== 0) return null;
+
+  const declared: ShiftTotals = {};
+  for (let i = 0; i < words.length; i += 2) {
+    const name = words[i].normalize("NFD").replace(/[\u0300-\u036f]/g, "").toLowerCase();
+    const method = parsePaymentMethodName(words[i]);
+    const bucket: ClosingBucket | null = name === "cartao" ? "cartao" : method ? toBucket(method) : null;
+    // Counting an empty drawer is valid, so 0 is accepted here
+    const amount = /^0+([.,]0+)?$/.test(words[i + 1]) ? 0 : parseBRLAmount(words[i + 1]);
+    if (!bucket || amount === null) return null;
+
+    declared[bucket] = roundCents((declared[bucket] ?? 0) + amount);
+  }
+
+  return declared;
+}
+
+export type CloseShiftResult =
+  | { status: "closed"; shift: Shift }
+  | { status: "no_shift" }
+  | { status: "pending"; count: number };
+
+/**
+ * Close an open or reopened shift with the operator's counted amounts. Refused while receipts
+ * of the shift still wait for review, since their amounts aren't settled yet.
+ */
+async function finishShift(shift: Shift, actor: Actor, declared: ShiftTotals): Promise<CloseShiftResult> {
+  const transactions = await getShiftTransactions(shift.id);
+  const pending = transactions.filter((t) => t.status === "pending").length;
+  if (pending > 0) return { status: "pending", count: pending };
+
+  const { data, error } = await supabase
+    .from("shifts")
+    .update({
+      status: "closed",
+      closed_at: new Date().toISOString(),
+      closed_by_id: actor.userId,
+      closed_by_name: actor.name,
+      sales_count: transactions.length,
+      expected: getExpectedTotals(shift, transactions),
+      declared,
+      updated_at: new Date().toISOString(),
+    })
+    .eq("id", shift.id)
+    .eq("status", shift.status)
+    .select()
+    .maybeSingle();
+
+  if (error) throw error;
+  // Closed by someone else in the meantime
+  if (!data) return { status: "no_shift" };
+  return { status: "closed", shift: data };
+}
+
+/** Close the chat's open shift */
+export async function closeShift(chatId: number, actor: Actor, declared: ShiftTotals): Promise<CloseShiftResult> {
+  const shift = await getOpenShift(chatId);
+  if (!shift) return { status: "no_shift" };
+  return finishShift(shift, actor, declared);
+}
+
+/**
+ * Close a reopened shift again after corrections. The expected amounts are recomputed; the
+ * counted ones stay as declared at the first close unless new ones are given.
+ */
+export async function recloseShift(
+  chatId: number,
+  shiftId: number,
+  actor: Actor,
+  declared: ShiftTotals | null
+): Promise<CloseShiftResult> {
+  const shift = await getShift(chatId, shiftId);
+  if (!shift || shift.status !== "reopened") return { status: "no_shift" };
+  return finishShift(shift, actor, declared ?? shift.declared ?? {});
+}
+
+/**
+ * Reopen a closed shift so its transactions can be edited again. It doesn't take new receipts,
+ * so it can be reopened while another shift is open. Null when the chat has no such closed shift.
+ */
+export async function reopenShift(chatId: number, shiftId: number, actor: Actor): Promise<Shift | null> {
+  const { data, error } = await supabase
+    .from("shifts")
+    .update({
+      status: "reopened",
+      reopened_at: new Date().toISOString(),
+      reopened_by_name: actor.name,
+      updated_at: new Date().toISOString(),
+    })
+    .eq("chat_id", chatId)
+    .eq("id", shiftId)
+    .eq("status", "closed")
+    .select()
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+}
+
+/** Throw ShiftClosedError when any of the transactions belongs to a closed shift */
+export async function assertShiftsOpen(transactions: Pick<Transaction, "shift_id">[]): Promise<void> {
+  const shiftIds = [...new Set(transactions.map((t) => t.shift_id).filter((id): id is number => !!id))];
+  if (shiftIds.length === 0) return;
+
+  const { data, error } = await supabase.from("shifts").select("id").in("id", shiftIds).eq("status", "closed").limit(1);
+
+  if (error) throw error;
+  if (data && data.length > 0) throw new ShiftClosedError(data[0].id);
+}
+
+/** "⚠️ falta R$ 20,00", "⚠️ sobra R$ 5,00" or "✅ confere" */
+function formatDifference(difference: number): string {
+  if (Math.abs(difference) < 0.005) return "✅ confere";
+  return difference < 0 ? `⚠️ falta ${formatCurrency(-difference)}` : `⚠️ sobra ${formatCurrency(difference)}`;
+}
+
+/** "18/10 08:00" */
+function formatShiftTime(iso: string, timeZone: string): string {
+  const date = new Date(iso);
+  const day = date.toLocaleDateString("pt-BR", { day: "2-digit", month: "2-digit", timeZone });
+  return `${day} ${formatTimeInZone(date, timeZone)}`;
+}
+
+/** Expected vs declared per payment method, with the differences */
+export async function getClosingReportMessage(shift: Shift): Promise<string> {
+  const { timeZone } = await getDaySettings(shift.chat_id);
+  const formatWhen = (iso: string) => formatShiftTime(iso, timeZone);
+
+  const expected = shift.expected ?? {};
+  const declared = shift.declared ?? {};
+
+  const lines = [
+    `🔒 Fechamento de caixa #${shift.id}`,
+    "",
+    `Aberto: ${formatWhen(shift.opened_at)}${shift.opened_by_name ? ` por ${shift.opened_by_name}` : ""}`,
+    `Fechado: ${formatWhen(shift.closed_at!)}${shift.closed_by_name ? ` por ${shift.closed_by_name}` : ""}`,
+    `${shift.sales_count ?? 0} venda(s)`,
+  ];
+  if (shift.reopened_at) lines.push(`Reaberto em ${formatWhen(shift.reopened_at)} e fechado de novo`);
+
+  let totalExpected = 0;
+  let totalDifference = 0;
+  let unchecked = 0;
+
+  for (const bucket of CLOSING_BUCKETS) {
+    const expectedAmount = expected[bucket];
+    const declaredAmount = declared[bucket];
+    if (expectedAmount === undefined && declaredAmount === undefined) continue;
+
+    totalExpected += expectedAmount ?? 0;
+    lines.push("", BUCKET_LABELS[bucket]);
+    lines.push(`   Esperado: ${formatCurrency(expectedAmount ?? 0)}`);
+    if (bucket === "dinheiro" && shift.opening_cash > 0) {
+      lines.push(`   (inclui troco inicial de ${formatCurrency(shift.opening_cash)})`);
+    }
+
+    if (declaredAmount === undefined) {
+      unchecked++;
+      lines.push("   Declarado: não conferido");
+      continue;
+    }
+
+    const difference = roundCents(declaredAmount - (expectedAmount ?? 0));
+    totalDifference += difference;
+    lines.push(`   Declarado: ${formatCurrency(declaredAmount)}`, `   ${formatDifference(difference)}`);
+  }
+
+  lines.push("", `💰 Total esperado: ${formatCurrency(totalExpected)}`);
+  lines.push(`📊 Diferença total: ${formatDifference(roundCents(totalDifference))}`);
+  if (unchecked > 0) lines.push(`(${unchecked} forma(s) de pagamento não conferida(s))`);
+
+  return lines.join("\n");
+}
+
+/** /fecharcaixa without amounts: the open shift and how to close it, without the expected amounts */
+export async function getOpenShiftMessage(shift: Shift): Promise<string> {
+  const { timeZone } = await getDaySettings(shift.chat_id);
+  const transactions = await getShiftTransactions(shift.id);
+  const confirmed = transactions.filter((t) => t.status === "confirmed").length;
+  const pending = transactions.length - confirmed;
+
+  // The operator counts the drawer before seeing what the bot expects
+  const lines = [
+    `🟢 Caixa #${shift.id} aberto desde ${formatShiftTime(shift.opened_at, timeZone)}` +
+      (shift.opened_by_name ? ` por ${shift.opened_by_name}` : ""),
+    `${confirmed} venda(s) registrada(s)`,
+  ];
+  if (shift.opening_cash > 0) lines.push(`Troco inicial: ${formatCurrency(shift.opening_cash)}`);
+  if (pending > 0) lines.push("", `⚠️ ${pending} comprovante(s) aguardando revisão. Revise antes de fechar.`);
+
+  lines.push(
+    "",
+    "Conte o caixa e informe os valores para fechar:",
+    "/fecharcaixa dinheiro 520,00 cartao 1.430,00",
+    "",
+    "Também vale pix, ted, boleto, credito e debito."
+  );
+
+  return lines.join("\n");
+}
+
+/** /reabrircaixa without a shift: the latest closed shifts to pick from */
+export async function getReopenableShiftsMessage(chatId: number): Promise<string> {
+  const shifts = await getRecentClosedShifts(chatId);
+  if (shifts.length === 0) return "Nenhum caixa fechado para reabrir.";
+
+  const { timeZone } = await getDaySettings(chatId);
+  const lines = shifts.map((shift) => {
+    const closed = shift.closed_at ? ` até ${formatShiftTime(shift.closed_at, timeZone)}` : "";
+    const who = shift.closed_by_name ? ` por ${shift.closed_by_name}` : "";
+    const state = shift.status === "reopened" ? "🔓 reaberto" : "🔒 fechado";
+    return `#${shift.id} - ${formatShiftTime(shift.opened_at, timeZone)}${closed}${who} - ${state}`;
+  });
+
+  return [
+    "🗂️ Últimos caixas",
+    "",
+    ...lines,
+    "",
+    "Reabra um caixa para corrigir as transações dele:",
+    `/reabrircaixa ${(shifts.find((shift) => shift.status === "closed") ?? shifts[0]).id}`,
+    "",
+    "Depois feche de novo com /fecharcaixa e o número do caixa.",
+  ].join("\n");
+}
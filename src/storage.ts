@@ -0,0 +1,187 @@
+import crypto from "crypto";
+import fs from "fs/promises";
+import path from "path";
+import JSZip from "jszip";
+import { supabase, Transaction } from "./database.js";
+import { MediaType } from "./extractor.js";
+
+/** Where original receipt files are archived, so they outlive Telegram's file IDs */
+export interface ReceiptStorage {
+  name: StorageBackend;
+  put(key: string, data: Buffer, contentType: string): Promise<void>;
+  get(key: string): Promise<Buffer | null>;
+  remove(keys: string[]): Promise<void>;
+}
+
+export type StorageBackend = "supabase" | "local" | "none";
+
+/** An archived receipt file */
+export interface ArchivedReceipt {
+  path: string; // storage key, "<chat_id>/<sha256>.<ext>"
+  hash: string; // SHA-256 of the file bytes
+}
+
+const RECEIPT_STORAGE = (process.env.RECEIPT_STORAGE || "supabase") as StorageBackend;
+const RECEIPT_STORAGE_BUCKET = process.env.RECEIPT_STORAGE_BUCKET || "receipts";
+const RECEIPT_STORAGE_DIR = process.env.RECEIPT_STORAGE_DIR || "./data/receipts";
+
+const EXTENSIONS: Record<MediaType, string> = {
+  "image/jpeg": "jpg",
+  "image/png": "png",
+  "image/webp": "webp",
+  "image/gif": "gif",
+  "application/pdf": "pdf",
+};
+
+const CONTENT_TYPES: Record<string, MediaType> = Object.fromEntries(
+  Object.entries(EXTENSIONS).map(([type, ext]) => [ext, type as MediaType])
+);
+
+/** Supabase Storage bucket; the bucket must exist and be private */
+const supabaseStorage: ReceiptStorage = {
+  name: "supabase",
+
+  async put(key, data, contentType) {
+    const { error } = await supabase.storage
+      .from(RECEIPT_STORAGE_BUCKET)
+      .upload(key, data, { contentType, upsert: true });
+    if (error) throw error;
+  },
+
+  async get(key) {
+    const { data, error } = await supabase.storage.from(RECEIPT_STORAGE_BUCKET).download(key);
+    if (error || !data) return null;
+    return Buffer.from(await data.arrayBuffer());
+  },
+
+  async remove(keys) {
+    if (keys.length === 0) return;
+    const { error } = await supabase.storage.from(RECEIPT_STORAGE_BUCKET).remove(keys);
+    if (error) throw error;
+  },
+};
+
+/** Plain directory, for development and tests */
+const localFileStorage: ReceiptStorage = {
+  name: "local",
+
+  async put(key, data) {
+    const file = path.join(RECEIPT_STORAGE_DIR, key);
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    await fs.writeFile(file, data);
+  },
+
+  async get(key) {
+    try {
+      return await fs.readFile(path.join(RECEIPT_STORAGE_DIR, key));
+    } catch {
+      return null;
+    }
+  },
+
+  async remove(keys) {
+    await Promise.all(keys.map((key) => fs.rm(path.join(RECEIPT_STORAGE_DIR, key), { force: true })));
+  },
+};
+
+const STORAGES: Record<Exclude<StorageBackend, "none">, ReceiptStorage> = {
+  supabase: supabaseStorage,
+  local: localFileStorage,
+};
+
+/** The configured backend; null when archiving is turned off */
+export function getReceiptStorage(): ReceiptStorage | null {
+  return RECEIPT_STORAGE === "none" ? null : STORAGES[RECEIPT_STORAGE] ?? supabaseStorage;
+}
+
+export function computeFileHash(data: Buffer): string {
+  return crypto.createHash("sha256").update(data).digest("hex");
+}
+
+/**
+ * Store a receipt file under its content hash, so the same bytes are kept once per chat.
+ * Archiving never blocks a receipt from being registered: on failure it returns null.
+ */
+export async function archiveReceipt(chatId: number, data: Buffer, mediaType: MediaType): Promise<ArchivedReceipt | null> {
+  const storage = getReceiptStorage();
+  if (!storage) return null;
+
+  const hash = computeFileHash(data);
+  const key = `${chatId}/${hash}.${EXTENSIONS[mediaType] ?? "bin"}`;
+
+  try {
+    await storage.put(key, data, mediaType);
+    return { path: key, hash };
+  } catch (error) {
+    console.error(`Failed to archive receipt for chat ${chatId}:`, error);
+    return null;
+  }
+}
+
+/** An archived file and the name and type to send it with */
+export async function getArchivedReceipt(
+  transaction: Transaction
+): Promise<{ data: Buffer; filename: string; contentType: MediaType | null } | null> {
+  const storage = getReceiptStorage();
+  if (!storage || !transaction.receipt_path) return null;
+
+  const data = await storage.get(transaction.receipt_path);
+  if (!data) return null;
+
+  const ext = path.extname(transaction.receipt_path).slice(1);
+  return { data, filename: `comprovante_${transaction.id}.${ext}`, contentType: CONTENT_TYPES[ext] ?? null };
+}
+
+/**
+ * Add the archived file of every transaction given to a ZIP, named by date, amount and id.
+ * Returns how many files were added.
+ */
+export async function addReceiptsToZip(
+  zip: JSZip,
+  transactions: Transaction[],
+  timeZone: string,
+  folder: string = ""
+): Promise<number> {
+  const storage = getReceiptStorage();
+  if (!storage) return 0;
+
+  const added = new Set<string>();
+
+  for (const t of transactions) {
+    // Several receipts read from one image share the file
+    if (!t.receipt_path || added.has(t.receipt_path)) continue;
+
+    const data = await storage.get(t.receipt_path);
+    if (!data) continue;
+
+    const date = new Date(t.created_at!).toLocaleDateString("sv-SE", { timeZone }); // YYYY-MM-DD
+    const amount = t.amount.toFixed(2).replace(".", ",");
+    zip.file(`${folder}${date}_${amount}_${t.id}${path.extname(t.receipt_path)}`, data);
+    added.add(t.receipt_path);
+  }
+
+  return added.size;
+}
+
+/** ZIP with the receipts of a set of transactions; null when none of them has an archived file */
+export async function buildReceiptsZip(
+  transactions: Transaction[],
+  timeZone: string
+): Promise<{ zip: Buffer; count: number } | null> {
+  const zip = new JSZip();
+  const count = await addReceiptsToZip(zip, transactions, timeZone);
+
+  if (count === 0) return null;
+  return { zip: await zip.generateAsync({ type: "nodebuffer", compression: "DEFLATE" }), count };
+}
+
+/** Delete archived files; unknown keys are ignored */
+export async function removeReceipts(paths: string[]): Promise<void> {
+  const storage = getReceiptStorage();
+  if (!storage || paths.length === 0) return;
+
+  // Storage APIs cap how many keys one call may delete
+  for (let i = 0; i < paths.length; i += 100) {
+    await storage.remove(paths.slice(i, i + 100));
+  }
+}
@@ -1,4 +1,5 @@
-import { supabase, getStartOfTodayISO } from "./database.js";
+import { supabase } from "./database.js";
+import { getChatBusinessDay } from "./businessday.js";
 
 export type PlanType = "free" | "basico" | "pro" | "ultra";
 
@@ -249,13 +250,17 @@ export async function downgradeToFree(chatId: number): Promise<void> {
 }
 
 async function getTodayTransactionCount(chatId: number): Promise<number> {
-  const todayISO = getStartOfTodayISO();
+  const today = await getChatBusinessDay(chatId);
 
+  // Manual entries cost nothing to process, so they don't count against the limit
   const { count } = await supabase
     .from("transactions")
     .select("*", { count: "exact", head: true })
     .eq("chat_id", chatId)
-    .gte("created_at", todayISO);
+    .neq("source", "manual")
+    .is("deleted_at", null)
+    .gte("created_at", today.start.toISOString())
+    .lt("created_at", today.end.toISOString());
 
   return count ?? 0;
 }
@@ -1,4 +1,29 @@
-import { getTodayStats, getTodayTransactions } from "./database.js";
+import {
+  getStats,
+  getTransactions,
+  getPendingTransactions,
+  groupByMethod,
+  MethodStats,
+  PaymentMethod,
+  PAYMENT_METHODS,
+  Transaction,
+} from "./database.js";
+import { isReceiverCheckBlocking, ReceiverCheck } from "./receiver.js";
+import { getGoalProgressLines } from "./goals.js";
+import {
+  formatTimeInZone,
+  getBusinessDay,
+  getChatBusinessDay,
+  getDayPeriod,
+  getDaySettings,
+  getPeriodDays,
+  DEFAULT_TIMEZONE,
+  Period,
+} from "./businessday.js";
+import { formatPaymentMethod, PAYMENT_METHOD_LABELS } from "./labels.js";
+
+// Transactions per page of the list, so long periods stay under Telegram's message size limit
+export const TRANSACTIONS_PER_PAGE = 20;
 
 export function formatCurrency(value: number): string {
   return value.toLocaleString("pt-BR", {
@@ -8,7 +33,19 @@ export function formatCurrency(value: number): string {
 }
 
 export function formatDate(date: Date): string {
-  return date.toLocaleDateString("pt-BR");
+  return date.toLocaleDateString("pt-BR", { timeZone: DEFAULT_TIMEZONE });
+}
+
+/** One line per payment method, in a fixed order */
+export function formatMethodBreakdown(byMethod: Partial<Record<PaymentMethod, MethodStats>>): string {
+  const methods = PAYMENT_METHODS.filter((m) => byMethod[m]);
+  return methods
+    .map((m, i) => {
+      const prefix = i === methods.length - 1 ? "└" : "├";
+      const stats = byMethod[m]!;
+      return `${prefix} ${PAYMENT_METHOD_LABELS[m]}: ${formatCurrency(stats.total)} (${stats.count})`;
+    })
+    .join("\n");
 }
 
 export async function getRunningTotalMessage(
@@ -17,7 +54,9 @@ export async function getRunningTotalMessage(
   bank?: string | null,
   clientName?: string | null
 ): Promise<string> {
-  const { total, count } = await getTodayStats(chatId);
+  const today = await getChatBusinessDay(chatId);
+  const { total, count } = await getStats(chatId, today);
+  const goalLines = await getGoalProgressLines(chatId, total, today);
 
   const amountStr = formatCurrency(justAddedAmount);
   const totalStr = formatCurrency(total);
@@ -28,43 +67,163 @@ export async function getRunningTotalMessage(
   if (bank) details += details ? ` | 🏦 ${bank}` : `🏦 ${bank}`;
   if (details) details = `\n${details}`;
 
-  return `✓ ${amountStr}${details}\n📊 Total hoje: ${totalStr} (${count} ${vendas})`;
+  return [`✓ ${amountStr}${details}`, `📊 Total hoje: ${totalStr} (${count} ${vendas})`, ...goalLines].join("\n");
+}
+
+/** Consolidated reply for several receipts registered at once (albums, transaction lists) */
+export async function getBatchTotalMessage(
+  chatId: number,
+  added: { amount: number | null; bank?: string | null; clientName?: string | null }[],
+  issues: string[]
+): Promise<string> {
+  const today = await getChatBusinessDay(chatId);
+  const { total, count } = await getStats(chatId, today);
+  const goalLines = await getGoalProgressLines(chatId, total, today);
+
+  const addedTotal = added.reduce((sum, r) => sum + (r.amount ?? 0), 0);
+  const comprovantes = added.length === 1 ? "comprovante registrado" : "comprovantes registrados";
+
+  const lines = added.map((r, i) => {
+    const details: string[] = [];
+    if (r.clientName) details.push(`👤 ${r.clientName}`);
+    if (r.bank) details.push(`🏦 ${r.bank}`);
+    const detailStr = details.length > 0 ? ` | ${details.join(" | ")}` : "";
+    return `${i + 1}. ${formatCurrency(r.amount ?? 0)}${detailStr}`;
+  });
+
+  const issueLines = issues.map((issue) => `⚠️ ${issue}`);
+  const vendas = count === 1 ? "venda" : "vendas";
+
+  return [
+    `✓ ${added.length} ${comprovantes} (${formatCurrency(addedTotal)})`,
+    ...lines,
+    ...(issueLines.length > 0 ? ["", ...issueLines] : []),
+    "",
+    `📊 Total hoje: ${formatCurrency(total)} (${count} ${vendas})`,
+    ...goalLines,
+  ].join("\n");
 }
 
 export async function getDailySummaryMessage(chatId: number): Promise<string> {
-  const { total, count } = await getTodayStats(chatId);
-  const today = new Date();
+  const today = await getChatBusinessDay(chatId);
+  const { total, count, byMethod } = await getStats(chatId, today);
 
   const totalStr = formatCurrency(total);
-  const dateStr = formatDate(today);
+  const dateStr = today.label;
+  const breakdown = count > 0 ? `\n${formatMethodBreakdown(byMethod)}` : "";
+
+  return `📅 Vendas ${dateStr}\n💰 Total: ${totalStr}\n🧾 ${count} transações${breakdown}`;
+}
+
+/** Totals, average ticket, method breakdown and, for multi-day periods, the total of each day */
+export async function getPeriodSummaryMessage(chatId: number, period: Period): Promise<string> {
+  const transactions = await getTransactions(chatId, period);
+  const total = transactions.reduce((sum, t) => sum + t.amount, 0);
+  const count = transactions.length;
+
+  const lines = [`📅 Vendas ${period.label}`, `💰 Total: ${formatCurrency(total)}`, `🧾 ${count} transações`];
+  if (count === 0) return lines.join("\n");
+
+  lines.push(`🎟️ Ticket médio: ${formatCurrency(total / count)}`, formatMethodBreakdown(groupByMethod(transactions)));
+
+  if (period.from !== period.to) {
+    const byDay = new Map<string, { total: number; count: number }>();
+    for (const t of transactions) {
+      const day = getBusinessDay(period.settings, new Date(t.created_at!)).date;
+      const stats = byDay.get(day) ?? { total: 0, count: 0 };
+      stats.total += t.amount;
+      stats.count++;
+      byDay.set(day, stats);
+    }
+
+    // Only days with sales, so a month stays readable
+    const dayLines = getPeriodDays(period)
+      .filter((day) => byDay.has(day))
+      .map((day) => {
+        const stats = byDay.get(day)!;
+        const [year, month, date] = day.split("-").map(Number);
+        const weekday = new Date(Date.UTC(year, month - 1, date))
+          .toLocaleDateString("pt-BR", { weekday: "short", timeZone: "UTC" })
+          .replace(".", "");
+        return `${day.slice(8)}/${day.slice(5, 7)} (${weekday}): ${formatCurrency(stats.total)} (${stats.count})`;
+      });
 
-  return `📅 PIX ${dateStr}\n💰 Total: ${totalStr}\n🧾 ${count} transações`;
+    lines.push("", "📆 Por dia:", ...dayLines);
+  }
+
+  return lines.join("\n");
 }
 
-export async function getTransactionListMessage(chatId: number): Promise<string> {
-  const transactions = await getTodayTransactions(chatId);
+export interface TransactionListPage {
+  text: string;
+  page: number; // 0-based, clamped to the available pages
+  pageCount: number;
+}
+
+/** One page of the transaction list of a period (today by default), numbered like /apagar expects */
+export async function getTransactionListMessage(
+  chatId: number,
+  period?: Period,
+  page: number = 0
+): Promise<TransactionListPage> {
+  const settings = await getDaySettings(chatId);
+  const today = getBusinessDay(settings);
+  const range = period ?? getDayPeriod(settings, today.date);
+  const isToday = range.from === today.date && range.to === today.date;
+
+  const transactions = await getTransactions(chatId, range);
+  // Receipts under review are only mentioned in today's list, where they can still be confirmed
+  const pending = isToday ? await getPendingTransactions(chatId) : [];
+  const pendingNote = pending.length > 0 ? `\n\n⏳ ${pending.length} comprovante(s) aguardando revisão` : "";
 
   if (transactions.length === 0) {
-    return "Nenhuma transação registrada hoje.";
+    const when = isToday ? "hoje" : `em ${range.label}`;
+    return { text: `Nenhuma transação registrada ${when}.` + pendingNote, page: 0, pageCount: 1 };
   }
 
+  const pageCount = Math.ceil(transactions.length / TRANSACTIONS_PER_PAGE);
+  const current = Math.min(Math.max(page, 0), pageCount - 1);
+  const offset = current * TRANSACTIONS_PER_PAGE;
+  const multiDay = range.from !== range.to;
+
   // Calculate total from already-fetched transactions (avoids extra DB query)
   const total = transactions.reduce((sum, t) => sum + t.amount, 0);
-  const lines = transactions.map((t, i) => {
-    const time = new Date(t.created_at!).toLocaleTimeString("pt-BR", {
-      hour: "2-digit",
-      minute: "2-digit",
-    });
+  const lines = transactions.slice(offset, offset + TRANSACTIONS_PER_PAGE).map((t, i) => {
+    // Prefer the payment time printed on the receipt over the time it was sent to the bot
+    const when = new Date(t.paid_at || t.created_at!);
+    const date = multiDay
+      ? when.toLocaleDateString("pt-BR", { day: "2-digit", month: "2-digit", timeZone: settings.timeZone }) + " "
+      : "";
+    const time = date + formatTimeInZone(when, settings.timeZone);
     const amount = formatCurrency(t.amount);
-    const details: string[] = [];
+    const details: string[] = [formatPaymentMethod(t)];
     if (t.client_name) details.push(t.client_name);
-    if (t.bank_detected) details.push(t.bank_detected);
+    if (t.payer_document) details.push(t.payer_document);
+    if (t.payer_bank || t.bank_detected) details.push((t.payer_bank || t.bank_detected)!);
     const detailStr = details.length > 0 ? ` (${details.join(" - ")})` : "";
-    return `${i + 1}. ${time} - ${amount}${detailStr}`;
+
+    const extra: string[] = [];
+    if (t.receiver_name) {
+      const institution = t.receiver_institution ? ` - ${t.receiver_institution}` : "";
+      extra.push(`   ➡️ ${t.receiver_name}${institution}`);
+    }
+    if (t.e2e_id) extra.push(`   🔑 ${t.e2e_id}`);
+    if (t.note) extra.push(`   📝 ${t.note}`);
+
+    // Receipts the user accepted despite a receiver warning stay marked
+    const flag = isReceiverCheckBlocking(t.receiver_check as ReceiverCheck) ? " ⚠️" : "";
+
+    // Manual entries and notifications have no receipt file behind them, so they get their own markers
+    const marker = t.source === "manual" ? "✍️ " : t.source === "notification" ? "🔔 " : "";
+
+    return [`${offset + i + 1}. ${marker}${time} - ${amount}${detailStr}${flag}`, ...extra].join("\n");
   });
 
-  const header = `📋 Transações de hoje (${transactions.length}):\n\n`;
-  const footer = `\n\n💰 Total: ${formatCurrency(total)}`;
+  const title = isToday ? "de hoje" : range.label;
+  const pageInfo = pageCount > 1 ? ` - página ${current + 1}/${pageCount}` : "";
+  const header = `📋 Transações ${title} (${transactions.length})${pageInfo}:\n\n`;
+  const breakdown = formatMethodBreakdown(groupByMethod(transactions));
+  const footer = `\n\n💰 Total: ${formatCurrency(total)}\n${breakdown}${pendingNote}`;
 
-  return header + lines.join("\n") + footer;
+  return { text: header + lines.join("\n") + footer, page: current, pageCount };
 }
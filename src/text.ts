@@ -0,0 +1,14 @@
+/** Uppercase, strip accents and punctuation, collapse spaces: "João  da Silva." -> "JOAO DA SILVA" */
+export function normalizeName(name: string): string {
+  return name
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toUpperCase()
+    .replace(/[^A-Z0-9]+/g, " ")
+    .trim();
+}
+
+/** Keep only the digits of a document, phone or amount */
+export function digitsOnly(value: string): string {
+  return value.replace(/\D/g, "");
+}
@@ -1,32 +1,68 @@
 import Anthropic from "@anthropic-ai/sdk";
+import {
+  buildResult,
+  normalizeE2eId,
+  normalizePaidAt,
+  Confidence,
+  EngineName,
+  ExtractedReceipt,
+  ExtractionCall,
+  ExtractionResult,
+  Extractor,
+  MediaType,
+} from "./extractor.js";
+import { localExtractor } from "./ocr.js";
+import { parseNotificationText } from "./parser.js";
+import { PAYMENT_METHODS, PaymentMethod } from "./database.js";
 
 const anthropic = new Anthropic({
   apiKey: process.env.ANTHROPIC_API_KEY!,
 });
 
-export type MediaType = "image/jpeg" | "image/png" | "image/webp" | "image/gif" | "application/pdf";
+// Model escalation chain, cheapest first (override with CLAUDE_MODELS, comma-separated)
+const DEFAULT_MODELS = ["claude-3-5-haiku-20241022", "claude-sonnet-4-20250514"];
 
-// Model configuration
-const MODEL = "claude-sonnet-4-20250514";
-
-export interface ExtractionResult {
-  amount: number | null;
-  bank: string | null;
-  clientName: string | null;
-  rawResponse: string;
-  error?: string;
-}
-
-const EXTRACTION_PROMPT = `This is a Brazilian PIX payment confirmation. Extract the transaction details.
+const EXTRACTION_PROMPT = `This is a Brazilian payment proof: usually a PIX confirmation, but possibly a TED/DOC transfer, a boleto payment receipt, a card terminal slip, or a screenshot listing several payments. Extract the details of every payment shown.
 
 Respond in this exact JSON format:
-{"amount": 150.00, "bank": "Nubank", "clientName": "João Silva"}
+{"receipts": [{"amount": 150.00, "bank": "Nubank", "clientName": "João Silva", "e2eId": "E18236120202610191432s0123456789", "paidAt": "2026-10-19T14:32:05-03:00", "receiverName": "Loja Exemplo LTDA", "receiverInstitution": "Itaú", "receiverKey": "loja@exemplo.com.br", "receiverDocument": "12.345.678/0001-90", "payerDocument": "***.456.789-**", "payerBank": "Nubank", "paymentMethod": "pix", "cardBrand": null, "installments": null, "isScheduled": false, "confidence": "high", "confidenceReasons": [], "candidateAmounts": []}]}
 
-Rules:
+Rules (for each receipt):
 - amount: The value in BRL as a number (e.g., 1500.50 for R$1.500,50)
 - bank: The bank/institution name if visible (e.g., "Nubank", "Itaú", "Banco do Brasil"), or null
-- clientName: The payer's name (who sent the PIX), or null if not visible
-- If you cannot find an amount, respond: {"amount": null, "bank": null, "clientName": null, "error": "reason"}
+- clientName: The payer's name (who paid), or null if not visible
+- e2eId: The end-to-end ID ("ID da transação", "ID E2E", "Autenticação"), usually 32 characters starting with "E", or null
+- paidAt: The payment date and time printed on the receipt, in ISO 8601 with the Brasília offset (-03:00), or null
+- receiverName: The name of who received the payment (recebedor/destino/favorecido/estabelecimento), or null
+- receiverInstitution: The receiver's bank/institution, or null
+- receiverKey: The receiver's PIX key (chave) exactly as printed (keep the masking), or null
+- receiverDocument: The receiver's CPF/CNPJ exactly as printed (keep the masking), or null
+- payerDocument: The payer's CPF/CNPJ exactly as printed (keep the masking), or null
+- payerBank: The payer's bank/institution (origem), or null
+- paymentMethod: "pix", "ted", "doc", "boleto" (boleto payment receipt), "credito" or "debito" (card terminal slip), or "outro" if this is not a payment proof
+- cardBrand: The card brand on card slips (e.g. "Visa", "Mastercard", "Elo"), or null
+- installments: The number of installments (parcelas) on credit card slips, 1 if paid at once (à vista), or null
+- isScheduled: true if the payment is only scheduled ("agendado", "agendamento") and not completed yet
+- confidence: "high" if the amount is sharp and unambiguous, "medium" if readable with some doubt, "low" if you are unsure
+- confidenceReasons: Short reasons in Portuguese for any doubt (e.g. "imagem borrada", "valor cortado", "vários valores visíveis"), or []
+- candidateAmounts: Other values on the document that could be the paid amount, as numbers, or []
+- A single receipt is a list with one entry. If the image lists several separate payments, add one entry per payment, in the order shown
+- If you cannot find any amount, respond: {"receipts": [], "error": "reason"}
+
+Only respond with the JSON, nothing else.`;
+
+const NOTIFICATION_PROMPT = `The text above was forwarded or pasted from a Brazilian bank app: usually a notification that a payment (PIX or transfer) was received, but it may be any message. Extract every payment received in it, using the same JSON format and rules as for receipts:
+{"receipts": [{"amount": 85.00, "bank": "Nubank", "clientName": "Maria Silva", "e2eId": null, "paidAt": null, "receiverName": null, "receiverInstitution": null, "receiverKey": null, "receiverDocument": null, "payerDocument": null, "payerBank": null, "paymentMethod": "pix", "cardBrand": null, "installments": null, "isScheduled": false, "confidence": "high", "confidenceReasons": [], "candidateAmounts": []}]}
+
+Rules:
+- amount: The amount received in BRL as a number
+- bank: The bank or app that sent the notification, if named, or null
+- clientName: Who sent the money, or null
+- paidAt: Only if the text states a date and time, in ISO 8601 with the Brasília offset (-03:00), otherwise null
+- paymentMethod: "pix", "ted" or "doc"; use "outro" if the text describes money sent, a purchase or anything other than money received
+- confidence: "high" only if the text clearly states a received amount, "medium" or "low" otherwise, with confidenceReasons in Portuguese
+- Fields the text does not mention are null (or false/[] as in the example)
+- If there is no received payment in the text, respond: {"receipts": [], "error": "reason"}
 
 Only respond with the JSON, nothing else.`;
 
@@ -50,63 +86,94 @@ async function withRetry<T>(
   throw lastError;
 }
 
+function parsePaymentMethod(value: unknown): PaymentMethod {
+  // Documents the model does not classify are most likely PIX, the common case
+  return PAYMENT_METHODS.includes(value as PaymentMethod) ? (value as PaymentMethod) : "pix";
+}
+
+function parseConfidence(value: unknown): Confidence {
+  return value === "high" || value === "medium" || value === "low" ? value : "medium";
+}
+
+function parseReceipt(parsed: Record<string, unknown>): ExtractedReceipt {
+  const amount = typeof parsed.amount === "number" ? parsed.amount : null;
+  const reasons = Array.isArray(parsed.confidenceReasons) ? parsed.confidenceReasons : [];
+  const candidates = Array.isArray(parsed.candidateAmounts) ? parsed.candidateAmounts : [];
+
+  return {
+    amount,
+    bank: (parsed.bank as string) || null,
+    clientName: (parsed.clientName as string) || null,
+    e2eId: normalizeE2eId(parsed.e2eId),
+    paidAt: normalizePaidAt(parsed.paidAt),
+    receiverName: (parsed.receiverName as string) || null,
+    receiverInstitution: (parsed.receiverInstitution as string) || null,
+    receiverKey: (parsed.receiverKey as string) || null,
+    receiverDocument: (parsed.receiverDocument as string) || null,
+    payerDocument: (parsed.payerDocument as string) || null,
+    payerBank: (parsed.payerBank as string) || null,
+    paymentMethod: parsePaymentMethod(parsed.paymentMethod),
+    cardBrand: (parsed.cardBrand as string) || null,
+    installments: typeof parsed.installments === "number" ? parsed.installments : null,
+    isScheduled: parsed.isScheduled === true,
+    confidence: parseConfidence(parsed.confidence),
+    confidenceReasons: reasons.filter((r): r is string => typeof r === "string"),
+    candidateAmounts: candidates.filter(
+      (c): c is number => typeof c === "number" && c > 0 && c !== amount
+    ),
+  };
+}
+
 function parseExtractionResponse(responseText: string): ExtractionResult {
   try {
     const parsed = JSON.parse(responseText);
-    return {
-      amount: parsed.amount,
-      bank: parsed.bank || null,
-      clientName: parsed.clientName || null,
-      rawResponse: responseText,
-      error: parsed.error,
-    };
+    // Accept a bare receipt object too, in case the model skips the wrapper
+    const items: Record<string, unknown>[] = Array.isArray(parsed.receipts) ? parsed.receipts : [parsed];
+    const receipts = items.map(parseReceipt).filter((r) => r.amount !== null);
+    return buildResult("claude", receipts, responseText, parsed.error);
   } catch {
+    return buildResult("claude", [], responseText, "Failed to parse response");
+  }
+}
+
+/** Build the content block Claude reads a receipt file from */
+function getFileBlock(base64Data: string, mediaType: MediaType): Anthropic.ContentBlockParam {
+  if (mediaType === "application/pdf") {
     return {
-      amount: null,
-      bank: null,
-      clientName: null,
-      rawResponse: responseText,
-      error: "Failed to parse response",
+      type: "document",
+      source: { type: "base64", media_type: "application/pdf", data: base64Data },
     };
   }
+  return {
+    type: "image",
+    source: {
+      type: "base64",
+      media_type: mediaType as "image/jpeg" | "image/png" | "image/webp" | "image/gif",
+      data: base64Data,
+    },
+  };
 }
 
 /** Extract PIX data using a specific model */
 async function extractWithModel(
-  base64Data: string,
-  mediaType: MediaType,
+  input: Anthropic.ContentBlockParam,
+  prompt: string,
   model: string
 ): Promise<ExtractionResult> {
-  const isPdf = mediaType === "application/pdf";
+  const startedAt = Date.now();
 
   const message = await withRetry(() =>
     anthropic.messages.create({
       model,
-      max_tokens: 256,
+      max_tokens: 2048,
       messages: [
         {
           role: "user",
           content: [
-            isPdf
-              ? {
-                  type: "document" as const,
-                  source: {
-                    type: "base64" as const,
-                    media_type: "application/pdf" as const,
-                    data: base64Data,
-                  },
-                }
-              : {
-                  type: "image" as const,
-                  source: {
-                    type: "base64" as const,
-                    media_type: mediaType as "image/jpeg" | "image/png" | "image/webp" | "image/gif",
-                    data: base64Data,
-                  },
-                },
+            input,
             {
               type: "text",
-              text: EXTRACTION_PROMPT,
+              text: prompt,
             },
           ],
         },
@@ -115,32 +182,163 @@ async function extractWithModel(
   );
 
   const responseText = message.content[0].type === "text" ? message.content[0].text : "";
-  return parseExtractionResponse(responseText);
+  const result = parseExtractionResponse(responseText);
+  result.calls = [
+    {
+      engine: "claude",
+      model,
+      inputTokens: message.usage.input_tokens,
+      outputTokens: message.usage.output_tokens,
+      latencyMs: Date.now() - startedAt,
+      success: true,
+    },
+  ];
+  return result;
+}
+
+function getModelChain(): string[] {
+  const models = (process.env.CLAUDE_MODELS || "")
+    .split(",")
+    .map((model) => model.trim())
+    .filter(Boolean);
+
+  return models.length > 0 ? models : DEFAULT_MODELS;
+}
+
+/** Move to a stronger model when the JSON did not parse, no amount was found or a read is unsure */
+function shouldEscalate(result: ExtractionResult): boolean {
+  return result.receipts.length === 0 || result.receipts.some((r) => r.confidence === "low");
 }
 
-/** Extract PIX amount from image or PDF using Claude Sonnet */
+/** Run the model chain on one input, escalating until a model gives a confident answer */
+async function extractWithModelChain(
+  input: Anthropic.ContentBlockParam,
+  prompt: string
+): Promise<ExtractionResult> {
+  const models = getModelChain();
+  const calls: ExtractionCall[] = [];
+  let best: ExtractionResult | null = null;
+  let apiFailed = false;
+
+  for (const [i, model] of models.entries()) {
+    const startedAt = Date.now();
+    let result: ExtractionResult;
+
+    try {
+      result = await extractWithModel(input, prompt, model);
+    } catch (error) {
+      console.error(`Vision API error (${model}):`, error);
+      result = buildResult("claude", [], String(error), "API call failed");
+      apiFailed = true;
+      result.calls = [
+        { engine: "claude", model, inputTokens: 0, outputTokens: 0, latencyMs: Date.now() - startedAt, success: false },
+      ];
+    }
+
+    calls.push(...result.calls);
+
+    // Later models are stronger, so prefer their answer unless it found nothing
+    if (!best || result.receipts.length > 0 || best.receipts.length === 0) {
+      best = result;
+    }
+
+    if (!shouldEscalate(result)) break;
+    if (i < models.length - 1) {
+      console.log(`[extraction] ${model} was not conclusive, escalating to ${models[i + 1]}`);
+    }
+  }
+
+  return { ...best!, calls, apiFailed };
+}
+
+/** Claude vision extraction: handles any image or PDF, billed per call */
+export const claudeExtractor: Extractor = {
+  name: "claude",
+  async extract(base64Data, mediaType) {
+    return extractWithModelChain(getFileBlock(base64Data, mediaType), EXTRACTION_PROMPT);
+  },
+};
+
+const EXTRACTORS: Record<EngineName, Extractor> = {
+  claude: claudeExtractor,
+  local: localExtractor,
+};
+
+/**
+ * Extraction strategy:
+ * - EXTRACTION_ENGINES: engines to try, in order (default "local,claude")
+ * - EXTRACTION_FALLBACK: "error" moves to the next engine only when no amount was found;
+ *   "uncertain" (default) also moves on when any receipt is not high confidence
+ */
+function getEngineOrder(): Extractor[] {
+  const names = (process.env.EXTRACTION_ENGINES || "local,claude")
+    .split(",")
+    .map((name) => name.trim())
+    .filter((name): name is EngineName => name in EXTRACTORS);
+
+  return names.length > 0 ? names.map((name) => EXTRACTORS[name]) : [claudeExtractor];
+}
+
+function shouldFallBack(result: ExtractionResult): boolean {
+  if (result.receipts.length === 0) return true;
+  if (process.env.EXTRACTION_FALLBACK === "error") return false;
+  return result.receipts.some((r) => r.confidence !== "high");
+}
+
+/** Extract PIX data from image or PDF, running the configured engines until one succeeds */
 export async function extractPixData(
   base64Data: string,
   mediaType: MediaType
 ): Promise<ExtractionResult> {
-  try {
-    return await extractWithModel(base64Data, mediaType, MODEL);
-  } catch (error) {
-    console.error("Vision API error:", error);
-    return {
-      amount: null,
-      bank: null,
-      clientName: null,
-      rawResponse: String(error),
-      error: "API call failed",
-    };
+  const engines = getEngineOrder();
+  const calls: ExtractionCall[] = [];
+  let result: ExtractionResult | null = null;
+  let apiFailed = false;
+
+  for (const [i, engine] of engines.entries()) {
+    const attempt = await engine.extract(base64Data, mediaType);
+    const isLast = i === engines.length - 1;
+    calls.push(...attempt.calls);
+    apiFailed ||= attempt.apiFailed === true;
+
+    // Keep the first usable result in case later engines do worse
+    if (!result || (result.receipts.length === 0 && attempt.receipts.length > 0)) {
+      result = attempt;
+    }
+
+    if (isLast || !shouldFallBack(attempt)) {
+      const final = attempt.receipts.length > 0 ? attempt : result;
+      return { ...final, calls, apiFailed };
+    }
+
+    console.log(`[extraction] ${engine.name} was not conclusive, falling back to ${engines[i + 1].name}`);
   }
+
+  return result!;
+}
+
+/**
+ * Extract a payment from a forwarded or pasted bank notification. Known wordings are parsed
+ * locally for free; free-form texts go to Claude when it is among the configured engines.
+ */
+export async function extractNotificationData(text: string): Promise<ExtractionResult> {
+  const startedAt = Date.now();
+  const receipts = parseNotificationText(text);
+  const local = buildResult("local", receipts, text, receipts.length === 0 ? "No known notification pattern" : undefined);
+  local.calls = [
+    { engine: "local", model: null, inputTokens: 0, outputTokens: 0, latencyMs: Date.now() - startedAt, success: receipts.length > 0 },
+  ];
+
+  if (receipts.length > 0 || !getEngineOrder().includes(claudeExtractor)) return local;
+
+  const result = await extractWithModelChain({ type: "text", text }, NOTIFICATION_PROMPT);
+  return { ...result, calls: [...local.calls, ...result.calls] };
 }
 
 /** @deprecated Use extractPixData instead */
 export async function extractPixAmount(
   imageBase64: string,
-  mediaType: "image/jpeg" | "image/png" | "image/webp" | "image/gif" | "application/pdf"
+  mediaType: MediaType
 ): Promise<ExtractionResult> {
   return extractPixData(imageBase64, mediaType);
 }
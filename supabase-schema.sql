@@ -1,4 +1,5 @@
--- Run this in your Supabase SQL Editor to create the transactions table
+-- Reference snapshot of the full schema. Databases are set up and upgraded with the
+-- numbered files in migrations/: npm run migrate up (needs DATABASE_URL)
 
 CREATE TABLE transactions (
   id BIGSERIAL PRIMARY KEY,
@@ -6,9 +7,33 @@ CREATE TABLE transactions (
   amount DECIMAL(12, 2) NOT NULL,
   bank_detected TEXT,
   client_name TEXT,
-  telegram_file_id TEXT NOT NULL,
+  client_id BIGINT,
+  shift_id BIGINT,
+  payment_method TEXT NOT NULL DEFAULT 'pix',
+  card_brand TEXT,
+  installments INTEGER,
+  e2e_id TEXT,
+  paid_at TIMESTAMPTZ,
+  receiver_name TEXT,
+  receiver_institution TEXT,
+  payer_document TEXT,
+  payer_bank TEXT,
+  receipt_fingerprint TEXT,
+  image_hash TEXT,
+  content_hash TEXT,
+  receipt_index INTEGER,
+  status TEXT NOT NULL DEFAULT 'confirmed',
+  confidence TEXT,
+  confidence_reasons TEXT[],
+  receiver_check TEXT,
+  extraction_engine TEXT,
+  source TEXT NOT NULL DEFAULT 'receipt',
+  telegram_file_id TEXT,
+  receipt_path TEXT,
   raw_response TEXT,
-  created_at TIMESTAMPTZ DEFAULT NOW()
+  note TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  deleted_at TIMESTAMPTZ
 );
 
 -- Index for faster daily queries per user
@@ -19,3 +44,185 @@ CREATE INDEX idx_transactions_chat_file ON transactions (chat_id, telegram_file_
 
 -- Index for client name searches
 CREATE INDEX idx_transactions_client_name ON transactions (client_name);
+
+-- Index for a client's payments
+CREATE INDEX idx_transactions_chat_client ON transactions (chat_id, client_id);
+
+-- Index for a shift's transactions
+CREATE INDEX idx_transactions_shift ON transactions (shift_id);
+
+-- Index for end-to-end ID lookups
+CREATE INDEX idx_transactions_chat_e2e ON transactions (chat_id, e2e_id);
+
+-- Index for payer/amount/time fingerprint lookups
+CREATE INDEX idx_transactions_chat_fingerprint ON transactions (chat_id, receipt_fingerprint);
+
+-- Index for notification text duplicate lookups
+CREATE INDEX idx_transactions_chat_content ON transactions (chat_id, content_hash);
+
+-- Index for pending review lookups
+CREATE INDEX idx_transactions_chat_status ON transactions (chat_id, status);
+
+-- Each chat's own receiving identity, used to validate who receipts were paid to
+CREATE TABLE receiver_profiles (
+  id BIGSERIAL PRIMARY KEY,
+  chat_id BIGINT NOT NULL UNIQUE,
+  legal_name TEXT,
+  cnpj TEXT,
+  bank TEXT,
+  pix_keys TEXT[] NOT NULL DEFAULT '{}',
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Each chat's timezone and business-day cutoff (when its day starts)
+CREATE TABLE chat_settings (
+  id BIGSERIAL PRIMARY KEY,
+  chat_id BIGINT NOT NULL UNIQUE,
+  timezone TEXT NOT NULL DEFAULT 'America/Sao_Paulo',
+  day_cutoff TIME NOT NULL DEFAULT '00:00',
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Every engine/model call made to extract a receipt, for cost accounting
+CREATE TABLE extraction_calls (
+  id BIGSERIAL PRIMARY KEY,
+  chat_id BIGINT NOT NULL,
+  transaction_id BIGINT REFERENCES transactions (id) ON DELETE SET NULL,
+  telegram_file_id TEXT,
+  engine TEXT NOT NULL,
+  model TEXT,
+  input_tokens INTEGER NOT NULL DEFAULT 0,
+  output_tokens INTEGER NOT NULL DEFAULT 0,
+  latency_ms INTEGER NOT NULL DEFAULT 0,
+  success BOOLEAN NOT NULL DEFAULT TRUE,
+  cost_usd DECIMAL(12, 6) NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX idx_extraction_calls_chat_created ON extraction_calls (chat_id, created_at);
+CREATE INDEX idx_extraction_calls_file ON extraction_calls (chat_id, telegram_file_id);
+
+-- Receipts waiting to be processed, so slow extractions never hold the Telegram webhook
+CREATE TABLE receipt_jobs (
+  id BIGSERIAL PRIMARY KEY,
+  chat_id BIGINT NOT NULL,
+  kind TEXT NOT NULL,
+  payload JSONB NOT NULL,
+  status TEXT NOT NULL DEFAULT 'queued',
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 4,
+  next_attempt_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  last_error TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX idx_receipt_jobs_status_next ON receipt_jobs (status, next_attempt_at);
+CREATE INDEX idx_receipt_jobs_chat_status ON receipt_jobs (chat_id, status);
+
+-- Who changed which transaction, when, and the values before and after (/historico, /desfazer)
+CREATE TABLE transaction_audit (
+  id BIGSERIAL PRIMARY KEY,
+  chat_id BIGINT NOT NULL,
+  transaction_id BIGINT NOT NULL REFERENCES transactions (id) ON DELETE CASCADE,
+  batch_id TEXT NOT NULL,
+  action TEXT NOT NULL,
+  actor_id BIGINT,
+  actor_name TEXT,
+  old_values JSONB NOT NULL DEFAULT '{}',
+  new_values JSONB NOT NULL DEFAULT '{}',
+  undone_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX idx_transaction_audit_transaction ON transaction_audit (chat_id, transaction_id);
+CREATE INDEX idx_transaction_audit_chat_created ON transaction_audit (chat_id, created_at);
+
+-- Client directory: every spelling of a customer's name grouped into one client (/clientes, /cliente)
+CREATE TABLE clients (
+  id BIGSERIAL PRIMARY KEY,
+  chat_id BIGINT NOT NULL,
+  name TEXT NOT NULL,
+  search_key TEXT NOT NULL,
+  aliases TEXT[] NOT NULL DEFAULT '{}',
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX idx_clients_chat_search_key ON clients (chat_id, search_key);
+CREATE INDEX idx_clients_aliases ON clients USING GIN (aliases);
+
+ALTER TABLE transactions ADD CONSTRAINT transactions_client_id_fkey
+  FOREIGN KEY (client_id) REFERENCES clients (id) ON DELETE SET NULL;
+
+-- Private bucket for archived receipt files
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('receipts', 'receipts', false)
+ON CONFLICT (id) DO NOTHING;
+
+-- Scheduled summaries chosen by each chat (/resumos)
+CREATE TABLE summary_schedules (
+  id BIGSERIAL PRIMARY KEY,
+  chat_id BIGINT NOT NULL,
+  kind TEXT NOT NULL CHECK (kind IN ('daily', 'weekly', 'monthly')),
+  send_time TIME NOT NULL,
+  enabled BOOLEAN NOT NULL DEFAULT TRUE,
+  last_sent_for DATE,
+  last_sent_at TIMESTAMPTZ,
+  disabled_reason TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (chat_id, kind)
+);
+
+CREATE INDEX idx_summary_schedules_enabled ON summary_schedules (enabled) WHERE enabled;
+
+-- Daily and monthly revenue goals per chat (/meta)
+CREATE TABLE sales_goals (
+  id BIGSERIAL PRIMARY KEY,
+  chat_id BIGINT NOT NULL UNIQUE,
+  daily_goal DECIMAL(12, 2),
+  monthly_goal DECIMAL(12, 2),
+  daily_milestone INTEGER NOT NULL DEFAULT 0,
+  daily_milestone_day DATE,
+  monthly_milestone INTEGER NOT NULL DEFAULT 0,
+  monthly_milestone_month DATE,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Cash register shifts (/abrircaixa, /fecharcaixa)
+CREATE TABLE shifts (
+  id BIGSERIAL PRIMARY KEY,
+  chat_id BIGINT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'open',
+  opening_cash DECIMAL(12, 2) NOT NULL DEFAULT 0,
+  opened_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  opened_by_id BIGINT,
+  opened_by_name TEXT,
+  closed_at TIMESTAMPTZ,
+  closed_by_id BIGINT,
+  closed_by_name TEXT,
+  sales_count INTEGER,
+  expected JSONB,
+  declared JSONB,
+  reopened_at TIMESTAMPTZ,
+  reopened_by_name TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- At most one open shift per chat
+CREATE UNIQUE INDEX idx_shifts_chat_open ON shifts (chat_id) WHERE status = 'open';
+
+-- Index for a chat's latest shifts
+CREATE INDEX idx_shifts_chat_opened ON shifts (chat_id, opened_at);
+
+-- Applied migrations, written by the migration runner and checked by the bot at startup
+CREATE TABLE schema_migrations (
+  version TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  applied_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
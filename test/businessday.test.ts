@@ -0,0 +1,120 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  DaySettings,
+  getBusinessDay,
+  getBusinessDayOf,
+  getMonthPeriod,
+  getPreviousPeriod,
+  getRangePeriod,
+  getWeekPeriod,
+  isValidRange,
+  parseCutoff,
+  parseDateArg,
+  parsePeriodArgs,
+} from "../src/businessday.js";
+
+const SAO_PAULO: DaySettings = { timeZone: "America/Sao_Paulo", cutoffMinutes: 0 };
+const SAO_PAULO_4AM: DaySettings = { timeZone: "America/Sao_Paulo", cutoffMinutes: 240 };
+const NEW_YORK: DaySettings = { timeZone: "America/New_York", cutoffMinutes: 0 };
+
+const HOUR = 60 * 60 * 1000;
+
+describe("parseCutoff", () => {
+  it("reads times of day", () => {
+    assert.equal(parseCutoff("04:00"), 240);
+    assert.equal(parseCutoff("4h"), 240);
+    assert.equal(parseCutoff("4"), 240);
+    assert.equal(parseCutoff("0:30"), 30);
+  });
+
+  it("rejects anything else", () => {
+    assert.equal(parseCutoff("24:00"), null);
+    assert.equal(parseCutoff("12:60"), null);
+    assert.equal(parseCutoff("meia-noite"), null);
+  });
+});
+
+describe("getBusinessDay", () => {
+  it("uses the local date of the chat's timezone", () => {
+    // 23:00 of the 18th in São Paulo
+    const day = getBusinessDay(SAO_PAULO, new Date("2026-10-19T02:00:00Z"));
+    assert.equal(day.date, "2026-10-18");
+    assert.equal(day.label, "18/10/2026");
+    assert.equal(day.start.toISOString(), "2026-10-18T03:00:00.000Z");
+    assert.equal(day.end.toISOString(), "2026-10-19T03:00:00.000Z");
+  });
+
+  it("counts the hours before the cutoff as the previous day", () => {
+    assert.equal(getBusinessDay(SAO_PAULO_4AM, new Date("2026-10-19T06:59:00Z")).date, "2026-10-18");
+    assert.equal(getBusinessDay(SAO_PAULO_4AM, new Date("2026-10-19T07:00:00Z")).date, "2026-10-19");
+
+    const day = getBusinessDayOf(SAO_PAULO_4AM, "2026-10-18");
+    assert.equal(day.start.toISOString(), "2026-10-18T07:00:00.000Z");
+    assert.equal(day.end.toISOString(), "2026-10-19T07:00:00.000Z");
+  });
+
+  it("follows daylight saving changes", () => {
+    const spring = getBusinessDayOf(NEW_YORK, "2026-03-08");
+    assert.equal(spring.start.toISOString(), "2026-03-08T05:00:00.000Z");
+    assert.equal(spring.end.getTime() - spring.start.getTime(), 23 * HOUR);
+
+    const fall = getBusinessDayOf(NEW_YORK, "2026-11-01");
+    assert.equal(fall.start.toISOString(), "2026-11-01T04:00:00.000Z");
+    assert.equal(fall.end.getTime() - fall.start.getTime(), 25 * HOUR);
+  });
+});
+
+describe("periods", () => {
+  it("builds calendar months", () => {
+    const february = getMonthPeriod(SAO_PAULO, 2026, 2);
+    assert.equal(february.from, "2026-02-01");
+    assert.equal(february.to, "2026-02-28");
+    assert.equal(february.label, "fevereiro de 2026");
+
+    const december = getMonthPeriod(SAO_PAULO, 2026, 12);
+    assert.equal(december.to, "2026-12-31");
+    assert.equal(december.end.toISOString(), "2027-01-01T03:00:00.000Z");
+  });
+
+  it("runs weeks from Monday to Sunday", () => {
+    // Wednesday
+    const week = getWeekPeriod(SAO_PAULO, new Date("2026-10-21T15:00:00Z"));
+    assert.equal(week.from, "2026-10-19");
+    assert.equal(week.to, "2026-10-25");
+  });
+
+  it("compares a month with the month before and a range with as many days before", () => {
+    const september = getPreviousPeriod(getMonthPeriod(SAO_PAULO, 2026, 10));
+    assert.equal(september.from, "2026-09-01");
+    assert.equal(september.to, "2026-09-30");
+
+    const previous = getPreviousPeriod(getRangePeriod(SAO_PAULO, "2026-10-10", "2026-10-15"));
+    assert.equal(previous.from, "2026-10-04");
+    assert.equal(previous.to, "2026-10-09");
+    assert.equal(previous.label, "04/10/2026 a 09/10/2026");
+  });
+
+  it("parses command arguments", () => {
+    const range = parsePeriodArgs(SAO_PAULO, ["01/10/2026", "15/10/2026"]);
+    assert.equal(range?.from, "2026-10-01");
+    assert.equal(range?.to, "2026-10-15");
+
+    const month = parsePeriodArgs(SAO_PAULO, ["09/2026"]);
+    assert.equal(month?.from, "2026-09-01");
+    assert.equal(month?.to, "2026-09-30");
+
+    assert.equal(parsePeriodArgs(SAO_PAULO, ["15/10/2026", "01/10/2026"]), null);
+    assert.equal(parsePeriodArgs(SAO_PAULO, ["amanhã"]), null);
+  });
+
+  it("parses dates and limits ranges", () => {
+    const today = getBusinessDayOf(SAO_PAULO, "2026-10-19");
+    assert.equal(parseDateArg("15/10", today), "2026-10-15");
+    assert.equal(parseDateArg("5/1/27", today), "2027-01-05");
+    assert.equal(parseDateArg("31/02", today), null);
+
+    assert.equal(isValidRange("2026-01-01", "2026-12-31"), true);
+    assert.equal(isValidRange("2026-01-01", "2027-01-02"), false);
+  });
+});
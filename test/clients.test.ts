@@ -0,0 +1,40 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { clientKeysMatch, getClientKey } from "../src/clients.js";
+
+describe("getClientKey", () => {
+  it("ignores case, accents, punctuation and connecting words", () => {
+    assert.equal(getClientKey("João da Silva"), "JOAO SILVA");
+    assert.equal(getClientKey("JOAO DA SILVA."), "JOAO SILVA");
+    assert.equal(getClientKey("Joao Silva"), "JOAO SILVA");
+  });
+});
+
+describe("clientKeysMatch", () => {
+  it("matches the same key", () => {
+    assert.equal(clientKeysMatch("JOAO SILVA", "JOAO SILVA"), true);
+  });
+
+  it("matches a name with words left out, in order", () => {
+    assert.equal(clientKeysMatch("JOAO SILVA", "JOAO PEDRO SILVA"), true);
+    assert.equal(clientKeysMatch("JOAO PEDRO SILVA", "JOAO SILVA"), true);
+  });
+
+  it("matches an initial standing for a word", () => {
+    assert.equal(clientKeysMatch("JOAO S", "JOAO SILVA"), true);
+    assert.equal(clientKeysMatch("JOAO P SILVA", "JOAO PEDRO SILVA"), true);
+  });
+
+  it("needs the same first name", () => {
+    assert.equal(clientKeysMatch("PEDRO SILVA", "JOAO SILVA"), false);
+  });
+
+  it("needs the other words in order", () => {
+    assert.equal(clientKeysMatch("JOAO SILVA PEDRO", "JOAO PEDRO SILVA"), false);
+    assert.equal(clientKeysMatch("JOAO SOUZA", "JOAO SILVA"), false);
+  });
+
+  it("never matches on a first name alone", () => {
+    assert.equal(clientKeysMatch("JOAO", "JOAO SILVA"), false);
+  });
+});
@@ -0,0 +1,24 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { escapeCsv } from "../src/export.js";
+
+describe("escapeCsv", () => {
+  it("quotes every field", () => {
+    assert.equal(escapeCsv("João"), '"João"');
+    assert.equal(escapeCsv(150.5), '"150.5"');
+    assert.equal(escapeCsv(""), '""');
+  });
+
+  it("doubles quotes and keeps separators and line breaks inside the field", () => {
+    assert.equal(escapeCsv('Loja "Central"'), '"Loja ""Central"""');
+    assert.equal(escapeCsv("Silva, João\nobs"), '"Silva, João\nobs"');
+  });
+
+  it("neutralizes text a spreadsheet would run as a formula", () => {
+    assert.equal(escapeCsv("=HYPERLINK(\"http://x\")"), '"\'=HYPERLINK(""http://x"")"');
+    assert.equal(escapeCsv("+5511999999999"), "\"'+5511999999999\"");
+    assert.equal(escapeCsv("-1"), "\"'-1\"");
+    assert.equal(escapeCsv("@SUM(A1)"), "\"'@SUM(A1)\"");
+    assert.equal(escapeCsv("\tcmd"), "\"'\tcmd\"");
+  });
+});
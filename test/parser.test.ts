@@ -0,0 +1,62 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { parseBRLAmount, parseManualEntry } from "../src/parser.js";
+
+describe("parseBRLAmount", () => {
+  it("reads Brazilian formatting", () => {
+    assert.equal(parseBRLAmount("R$ 1.500,50"), 1500.5);
+    assert.equal(parseBRLAmount("1500,50"), 1500.5);
+    assert.equal(parseBRLAmount("R$150"), 150);
+    assert.equal(parseBRLAmount("1.234.567,89"), 1234567.89);
+  });
+
+  it("reads US formatting", () => {
+    assert.equal(parseBRLAmount("1,500.50"), 1500.5);
+    assert.equal(parseBRLAmount("1500.50"), 1500.5);
+  });
+
+  it("treats a lone separator followed by three digits as thousands", () => {
+    assert.equal(parseBRLAmount("1.500"), 1500);
+    assert.equal(parseBRLAmount("2,000"), 2000);
+  });
+
+  it("rounds to cents", () => {
+    assert.equal(parseBRLAmount("10,5"), 10.5);
+    assert.equal(parseBRLAmount("0,01"), 0.01);
+  });
+
+  it("rejects text without a positive amount", () => {
+    assert.equal(parseBRLAmount("R$"), null);
+    assert.equal(parseBRLAmount("abc"), null);
+    assert.equal(parseBRLAmount("0,00"), null);
+  });
+});
+
+describe("parseManualEntry", () => {
+  it("reads amount, client and payment method", () => {
+    assert.deepEqual(parseManualEntry("150,00 João dinheiro"), {
+      amount: 150,
+      clientName: "João",
+      paymentMethod: "dinheiro",
+    });
+    assert.deepEqual(parseManualEntry("R$ 80 Maria da Silva crédito"), {
+      amount: 80,
+      clientName: "Maria da Silva",
+      paymentMethod: "credito",
+    });
+  });
+
+  it("defaults to cash without a client", () => {
+    assert.deepEqual(parseManualEntry("25,50"), { amount: 25.5, clientName: null, paymentMethod: "dinheiro" });
+  });
+
+  it("keeps a last word that is not a payment method in the client name", () => {
+    assert.deepEqual(parseManualEntry("40 Ana Paula"), { amount: 40, clientName: "Ana Paula", paymentMethod: "dinheiro" });
+  });
+
+  it("rejects entries that don't start with an amount", () => {
+    assert.equal(parseManualEntry(""), null);
+    assert.equal(parseManualEntry("João 150"), null);
+    assert.equal(parseManualEntry("150abc João"), null);
+  });
+});
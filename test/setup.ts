@@ -0,0 +1,3 @@
+// Modules that use the database create its client when loaded; unit tests never reach it
+process.env.SUPABASE_URL ??= "http://localhost:54321";
+process.env.SUPABASE_SERVICE_KEY ??= "test";